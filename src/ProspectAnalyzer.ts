@@ -0,0 +1,545 @@
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { AxiosInstance } from 'axios';
+import { Browser, Page } from 'playwright';
+
+import {
+  BusinessInfo,
+  AnalysisResult,
+  AnalysisBatch,
+  AppConfig,
+  BusinessEnrichment,
+  AnalysisCategory,
+  AnalyzerFailure,
+  FailedAnalysis
+} from './types';
+import { Analyzer, AnalyzerContext, AnalyzerOutput } from './analyzers/Analyzer';
+import { analyzerRegistry } from './analyzers/AnalyzerRegistry';
+import { ScoringEngine } from './scoring/ScoringEngine';
+import { OpportunityCalculator } from './scoring/OpportunityCalculator';
+import { URLEnricher } from './collectors/URLEnricher';
+import { BrowserPool } from './runner/BrowserPool';
+import { RequestBudgetExceededError } from './runner/HostThrottle';
+import { Politeness } from './runner/Politeness';
+import { ProxyRotator } from './runner/ProxyRotator';
+import { WorkerPool } from './runner/WorkerPool';
+import { collapseSameSite } from './runner/collapseSameSite';
+import { withTimeout, TimeoutError } from './runner/withTimeout';
+import { FailureClassifier } from './runner/FailureClassifier';
+import { AnalysisEventEmitter, AnalysisListeners } from './runner/AnalysisEvents';
+import { AnalysisSink } from './runner/AnalysisSink';
+import { Logger, createConsoleLogger, errorMessage, withFields } from './logging/Logger';
+import { DebugBundle } from './logging/DebugBundle';
+import { SnapshotSet } from './snapshot/SnapshotSet';
+import { SnapshotWriter } from './snapshot/SnapshotWriter';
+import {
+  DEFAULT_APP_CONFIG,
+  DEFAULT_ANALYZER_TIMEOUT_MS,
+  ENRICHMENT_TIMEOUT_MS,
+  FAILURE_REASON_LABELS
+} from './config/constants';
+
+export interface ProspectAnalyzerOptions {
+  logger?: Logger;
+  // 指定した場合はこのブラウザを使い、定期的な再起動や close() による終了は行わない
+  browser?: Browser;
+  // 指定した場合のみスクリーンショットを保存する
+  screenshotDir?: string;
+  // 指定した場合はURLごとのデバッグ情報（分析ごとの所要時間・コンソールエラー・ページ遷移のレスポンス）をJSONで保存する
+  debugDir?: string;
+  // 指定した場合はネットワークにアクセスせず、保存済みのページ（SnapshotSet.businesses のURL）を分析する
+  snapshots?: SnapshotSet;
+  // 指定した場合は分析したページを、snapshots として再分析できる形で保存する
+  snapshotDir?: string;
+  concurrency?: number;
+}
+
+export interface AnalyzeBusinessesOptions {
+  sinks?: AnalysisSink[];
+  // 中断すると新しいURLの分析を開始せず、実行中の分析の完了を待って戻る
+  signal?: AbortSignal;
+  // 指定した場合はスクリーンショットと記録を screenshotDir 配下のこのフォルダに保存する（呼び出し間で上書きし合わない）
+  screenshotSubdir?: string;
+}
+
+export interface AnalyzeOptions extends ProspectAnalyzerOptions, AnalyzeBusinessesOptions {
+  config?: AppConfig;
+  listeners?: AnalysisListeners;
+}
+
+// 進捗は started / analyzer-finished / url-finished / url-failed / report-written イベントで通知する
+export class ProspectAnalyzer extends AnalysisEventEmitter {
+  private config: AppConfig;
+  private logger: Logger;
+  private screenshotDir?: string;
+  private debugDir?: string;
+  private snapshots?: SnapshotSet;
+  private snapshotWriter?: SnapshotWriter;
+  private proxy: ProxyRotator;
+  private browserPool: BrowserPool;
+  private politeness: Politeness;
+  private http: AxiosInstance;
+  // analyzeBusinesses() を同時に呼んでも、同時に分析するURLの数は concurrency までに抑える
+  private pool: WorkerPool<BusinessInfo>;
+  private urlEnricher: URLEnricher;
+  private failureClassifier: FailureClassifier;
+  private scoringEngine: ScoringEngine;
+  private opportunityCalculator: OpportunityCalculator;
+  private closed = false;
+
+  constructor(config: AppConfig = DEFAULT_APP_CONFIG, options: ProspectAnalyzerOptions = {}) {
+    super();
+    this.config = config;
+    this.logger = options.logger || createConsoleLogger();
+    this.screenshotDir = options.screenshotDir;
+    this.debugDir = options.debugDir;
+    this.snapshots = options.snapshots;
+    this.snapshotWriter = options.snapshotDir && !options.snapshots ? new SnapshotWriter(options.snapshotDir) : undefined;
+
+    // プロキシはブラウザ・企業情報の収集・外部APIの呼び出しに共通で適用する
+    const proxy = new ProxyRotator(config.proxy);
+    this.proxy = proxy;
+    this.http = proxy.createHttpClient();
+    this.urlEnricher = new URLEnricher(proxy, this.logger);
+    this.failureClassifier = new FailureClassifier();
+    this.scoringEngine = new ScoringEngine(config.scoring.weights, config.scoring.priorityThresholds);
+    this.opportunityCalculator = new OpportunityCalculator();
+    this.browserPool = new BrowserPool(config.analysis.browserRecycleInterval, options.browser, proxy);
+    // スナップショットはネットワークにアクセスしないため、アクセス間隔・robots.txt・上限を適用しない
+    this.politeness = new Politeness(options.snapshots ?
+      { ...config.analysis, hostIntervalMs: 0, ipIntervalMs: 0, respectRobotsTxt: false, requestBudget: 0 } :
+      config.analysis, this.http);
+    this.pool = new WorkerPool(options.concurrency || config.analysis.maxConcurrentAnalyses);
+  }
+
+  // screenshotDir が指定されていなければ保存先はない（撮影も記録もしない）
+  private screenshotDirFor(subdir?: string): string | undefined {
+    return this.screenshotDir && subdir ? join(this.screenshotDir, subdir) : this.screenshotDir;
+  }
+
+  private async takeScreenshots(page: Page, url: string, screenshotDir?: string): Promise<{ desktop: string; mobile: string }> {
+    if (!screenshotDir) {
+      return { desktop: '', mobile: '' };
+    }
+
+    mkdirSync(screenshotDir, { recursive: true });
+    const urlHash = this.fileKey(url);
+    const desktopPath = join(screenshotDir, `${urlHash}_desktop.png`);
+    const mobilePath = join(screenshotDir, `${urlHash}_mobile.png`);
+
+    // デスクトップスクリーンショット
+    await page.setViewportSize({ width: 1920, height: 1080 });
+    await page.screenshot({ path: desktopPath, fullPage: true });
+
+    // モバイルスクリーンショット
+    await page.setViewportSize({ width: 375, height: 667 });
+    await page.screenshot({ path: mobilePath, fullPage: true });
+
+    return {
+      desktop: desktopPath,
+      mobile: mobilePath
+    };
+  }
+
+  // recordHar / recordTrace が有効でも、保存先がなければ記録しない
+  private recordingPaths(url: string, screenshotDir?: string): { har?: string; trace?: string } {
+    const { recordHar, recordTrace } = this.config.analysis;
+    if (!screenshotDir || (!recordHar && !recordTrace)) {
+      return {};
+    }
+
+    mkdirSync(screenshotDir, { recursive: true });
+    const urlHash = this.fileKey(url);
+    return {
+      har: recordHar ? join(screenshotDir, `${urlHash}.har`) : undefined,
+      trace: recordTrace ? join(screenshotDir, `${urlHash}_trace.zip`) : undefined
+    };
+  }
+
+  // スクリーンショットやデバッグ情報のファイル名に使う、URLごとに一意な文字列
+  private fileKey(url: string): string {
+    return Buffer.from(url).toString('base64').replace(/[/+=]/g, '');
+  }
+
+  private async runAnalyzer(
+    analyzer: Analyzer,
+    page: Page,
+    context: AnalyzerContext,
+    failures: AnalyzerFailure[],
+    bundle: DebugBundle
+  ): Promise<AnalyzerOutput | null> {
+    const { category, name } = analyzer;
+    const url = context.url;
+    const timeoutMs = this.config.analysis.analyzerTimeouts[category] ?? analyzer.timeoutMs ?? DEFAULT_ANALYZER_TIMEOUT_MS;
+    const startedAt = Date.now();
+
+    try {
+      const result = await withTimeout(analyzer.analyze(page, context), timeoutMs, `${name}分析`);
+      const durationMs = Date.now() - startedAt;
+      bundle.recordAnalyzer(category, name, durationMs);
+      context.logger.debug(`${name}分析: ${durationMs}ms`);
+      this.emit('analyzer-finished', { url, category, durationMs, failed: false, timedOut: false });
+      return result;
+    } catch (error) {
+      // 1つの分析の失敗で見込み顧客全体を失わないよう、失敗として記録して続行する
+      bundle.recordAnalyzer(category, name, Date.now() - startedAt, errorMessage(error));
+      context.logger.warn(`${name}分析に失敗しました (${url}): ${errorMessage(error)}`);
+      const failure: AnalyzerFailure = {
+        category,
+        reason: errorMessage(error),
+        timedOut: error instanceof TimeoutError
+      };
+      failures.push(failure);
+      this.emit('analyzer-finished', { url, category, durationMs: Date.now() - startedAt, failed: true, timedOut: failure.timedOut });
+      return null;
+    }
+  }
+
+  private async enrichBusiness(page: Page, url: string, logger: Logger): Promise<BusinessEnrichment | undefined> {
+    try {
+      return await withTimeout(this.urlEnricher.enrichPage(page, this.politeness), ENRICHMENT_TIMEOUT_MS, '企業情報の取得');
+    } catch (error) {
+      // 企業情報は補足情報のため、取得できなくても分析結果は返す
+      logger.warn(`企業情報の取得に失敗しました (${url}):`, error);
+      return undefined;
+    }
+  }
+
+  // screenshotSubdir を指定した場合は、スクリーンショットと記録を screenshotDir 配下のこのフォルダに保存する
+  public async analyzeUrl(businessInfo: BusinessInfo, screenshotSubdir?: string): Promise<AnalysisResult | FailedAnalysis> {
+    // このURLの分析中のログには url フィールドを付ける
+    const logger = withFields(this.logger, { url: businessInfo.url });
+    const bundle = new DebugBundle(businessInfo.url);
+
+    const outcome = await this.analyzeWithRetry(businessInfo, logger, bundle, this.screenshotDirFor(screenshotSubdir));
+    this.writeDebugBundle(bundle, 'reason' in outcome ? outcome.reason : 'analyzed', logger);
+    return outcome;
+  }
+
+  // debugDir が指定されていなければ書き出さない。書き出せなくても分析結果は返す
+  private writeDebugBundle(bundle: DebugBundle, outcome: string, logger: Logger): void {
+    if (!this.debugDir) {
+      return;
+    }
+
+    try {
+      const filePath = bundle.write(this.debugDir, `${this.fileKey(bundle.url)}.json`, outcome);
+      logger.debug(`デバッグ情報を保存しました: ${filePath}`);
+    } catch (error) {
+      logger.warn(`デバッグ情報の保存に失敗しました (${bundle.url}):`, error);
+    }
+  }
+
+  private async analyzeWithRetry(
+    businessInfo: BusinessInfo,
+    logger: Logger,
+    bundle: DebugBundle,
+    screenshotDir?: string
+  ): Promise<AnalysisResult | FailedAnalysis> {
+    const { retryAttempts, retryDelay } = this.config.analysis;
+
+    let failure: FailedAnalysis | null = null;
+
+    for (let attempt = 1; attempt <= retryAttempts; attempt++) {
+      try {
+        return await this.analyzeUrlOnce(businessInfo, logger, bundle, screenshotDir);
+      } catch (error) {
+        if (error instanceof RequestBudgetExceededError) {
+          throw error;
+        }
+
+        const classified = this.failureClassifier.classify(error);
+        failure = {
+          url: businessInfo.url,
+          businessInfo,
+          ...classified,
+          attempts: attempt,
+          failedAt: new Date()
+        };
+
+        // 一時的な障害のみ再試行する
+        if (!this.failureClassifier.isRetryable(classified.reason) || attempt === retryAttempts) {
+          break;
+        }
+
+        logger.warn(`アクセス失敗 (${businessInfo.url}): ${FAILURE_REASON_LABELS[classified.reason]} - 再試行します (${attempt}/${retryAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
+      }
+    }
+
+    logger.error(`分析エラー (${businessInfo.url}): ${FAILURE_REASON_LABELS[failure!.reason]} - ${failure!.message}`);
+    return failure!;
+  }
+
+  private async analyzeUrlOnce(
+    businessInfo: BusinessInfo,
+    logger: Logger,
+    bundle: DebugBundle,
+    screenshotDir?: string
+  ): Promise<AnalysisResult> {
+    let releaseContext: (() => Promise<void>) | null = null;
+    let analyzed = false;
+
+    try {
+      // 同一ホスト・同一IPへの連続アクセスを避ける（robots.txt で禁止されていればここで失敗）
+      await this.politeness.acquire(businessInfo.url);
+
+      // オフライン時は保存済みの内容から、スナップショットの保存時は記録しながら応答する
+      const snapshot = this.snapshots?.load(businessInfo.url);
+      const recorder = this.snapshotWriter?.startPage(this.fileKey(businessInfo.url), this.proxy.createHttpClient());
+      const http = snapshot ? snapshot.createHttpClient() : recorder ? recorder.http : this.http;
+
+      // URLごとに独立したコンテキストで分析する（HAR はコンテキストを閉じたときに書き出される）
+      // HAR はコンテキストに1つのため、スナップショットの保存時はその HAR を使う（recordHar が無効なら結果には載せない）
+      const recordings = this.recordingPaths(businessInfo.url, screenshotDir);
+      if (recorder && recordings.har) {
+        recordings.har = recorder.harPath;
+      }
+      const harPath = recorder ? recorder.harPath : recordings.har;
+      const { context, release } = await this.browserPool.newContext({
+        userAgent: this.politeness.userAgent,
+        recordHar: harPath ? { path: harPath, content: recorder ? 'embed' : 'omit' } : undefined
+      });
+      releaseContext = async () => {
+        if (recordings.trace) {
+          await context.tracing.stop({ path: recordings.trace }).catch(error => {
+            logger.warn(`トレースの保存に失敗しました (${businessInfo.url}):`, error);
+          });
+        }
+        await release();
+
+        // 分析できたページのみスナップショットに加える
+        if (recorder && analyzed) {
+          try {
+            recorder.save(businessInfo);
+          } catch (error) {
+            logger.warn(`スナップショットの保存に失敗しました (${businessInfo.url}):`, error);
+          }
+        }
+      };
+      if (snapshot) {
+        await snapshot.route(context);
+      }
+      if (recordings.trace) {
+        await context.tracing.start({ screenshots: true, snapshots: true });
+      }
+      const page = await context.newPage();
+      bundle.startAttempt(page);
+
+      // タイムアウト設定
+      page.setDefaultTimeout(this.config.analysis.screenshotTimeout);
+
+      logger.info(`分析開始: ${businessInfo.url}`);
+
+      // ページアクセス
+      const navigationStartedAt = Date.now();
+      const response = await page.goto(businessInfo.url, {
+        waitUntil: 'networkidle',
+        timeout: this.config.analysis.screenshotTimeout
+      });
+      const navigationMs = Date.now() - navigationStartedAt;
+      bundle.recordNavigation(businessInfo.url, page.url(), response, navigationMs);
+      logger.debug(`ページ遷移: HTTP ${response?.status() ?? '-'} ${page.url()}（${navigationMs}ms）`);
+
+      // HTTPエラー・ボット対策・パーキングドメインの判定
+      await this.failureClassifier.inspect(page, response);
+
+      // リダイレクト後のURLで HTTPS をチェック（http から https へ転送するサイトは HTTPS 対応とみなす）
+      const finalUrl = page.url();
+      const isHttps = finalUrl.startsWith('https://');
+
+      // 登録済みの各種分析を並行実行（分析ごとに時間制限を設け、失敗は個別に記録）
+      const url = businessInfo.url;
+      const analyzers = analyzerRegistry.list();
+      const analyzerContext: AnalyzerContext = {
+        url,
+        businessInfo,
+        config: this.config.analysis,
+        logger,
+        politeness: this.politeness,
+        http,
+        offline: Boolean(snapshot)
+      };
+      const failedAnalyzers: AnalyzerFailure[] = [];
+      const [outputs, screenshots] = await Promise.all([
+        Promise.all(analyzers.map(analyzer => this.runAnalyzer(analyzer, page, analyzerContext, failedAnalyzers, bundle))),
+        this.takeScreenshots(page, url, screenshotDir).catch(error => {
+          logger.warn(`スクリーンショットの取得に失敗しました (${url}):`, error);
+          return { desktop: '', mobile: '' };
+        })
+      ]);
+
+      if (failedAnalyzers.length === analyzers.length) {
+        throw new Error('すべての分析に失敗しました');
+      }
+      const categoryOrder = analyzers.map(analyzer => analyzer.category);
+      failedAnalyzers.sort((a, b) => categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category));
+
+      const categoryResults: Partial<Record<AnalysisCategory, AnalyzerOutput | null>> = {};
+      analyzers.forEach((analyzer, index) => {
+        categoryResults[analyzer.category] = outputs[index];
+      });
+
+      // 企業情報の収集（会社概要ページへ遷移するため各分析の完了後に実行）
+      const enrichment = await this.enrichBusiness(page, businessInfo.url, logger);
+
+      // スコアリング
+      const scores = this.scoringEngine.calculateScores({
+        categories: categoryResults,
+        isHttps
+      }, businessInfo.industry);
+
+      // 機会計算
+      const opportunities = this.opportunityCalculator.calculate({
+        scores,
+        categoryResults
+      }, businessInfo.industry);
+
+      // 課題の集約
+      const issues = outputs.flatMap(output => output?.issues || []);
+
+      // 推定月間損失額の計算
+      const estimatedMonthlyLoss = opportunities.reduce((sum, opp) => sum + opp.estimatedRevenueLift, 0);
+
+      // プラン推奨
+      const recommendedPlan = this.scoringEngine.recommendPlan(scores.total);
+
+      // 優先度判定
+      const priority = this.scoringEngine.determinePriority(scores.total, estimatedMonthlyLoss);
+
+      const result: AnalysisResult = {
+        url: businessInfo.url,
+        finalUrl,
+        businessInfo,
+        scores,
+        failedAnalyzers,
+        issues,
+        opportunities,
+        estimatedMonthlyLoss,
+        recommendedPlan,
+        priority,
+        screenshots,
+        recordings: recordings.har || recordings.trace ? recordings : undefined,
+        enrichment,
+        analyzedAt: new Date()
+      };
+
+      const incompleteNote = failedAnalyzers.length > 0 ? `（不完全: ${failedAnalyzers.length}カテゴリ失敗）` : '';
+      logger.info(`分析完了: ${businessInfo.url} - スコア: ${scores.total}, 優先度: ${priority}${incompleteNote}`);
+      
+      analyzed = true;
+      return result;
+
+    } finally {
+      if (releaseContext) {
+        await releaseContext();
+      }
+    }
+  }
+
+  // ブラウザは閉じないため、使い終わったら close() を呼ぶこと
+  public async analyzeBusinesses(businesses: BusinessInfo[], options: AnalyzeBusinessesOptions = {}): Promise<AnalysisBatch> {
+    const sinks = options.sinks || [];
+    const batch: AnalysisBatch = { results: [], failures: [] };
+    const total = businesses.length;
+    let startedCount = 0;
+    let completed = 0;
+    let skipped = 0;
+    // 完了順ではなく入力順で返すため、入力の位置に置いてから詰める
+    const outcomes: Array<AnalysisResult | FailedAnalysis | undefined> = new Array(total);
+
+    this.emit('started', { total, startedAt: new Date() });
+
+    await this.pool.run(businesses, async (business, index) => {
+      this.logger.info(`[${++startedCount}/${total}] ${business.url} を分析中...`);
+      let outcome: AnalysisResult | FailedAnalysis;
+      try {
+        outcome = await this.analyzeUrl(business, options.screenshotSubdir);
+      } catch (error) {
+        // 上限に達した後のURLは失敗として記録せず、再開時に分析できるよう未分析のまま残す
+        if (error instanceof RequestBudgetExceededError) {
+          skipped++;
+          return;
+        }
+        throw error;
+      }
+
+      // 停止のためにブラウザを閉じた後の失敗は記録しない（再開時に分析し直す）
+      if (this.closed) {
+        return;
+      }
+
+      // 完了した結果は即座に出力先へ渡す（失敗も理由付きで渡す）
+      for (const sink of sinks) {
+        if ('reason' in outcome) {
+          await sink.onFailure?.(outcome);
+        } else {
+          await sink.onResult?.(outcome);
+        }
+      }
+
+      completed++;
+      outcomes[index] = outcome;
+      if ('reason' in outcome) {
+        this.emit('url-failed', { url: business.url, failure: outcome, completed, total });
+      } else {
+        this.emit('url-finished', { url: business.url, result: outcome, completed, total });
+      }
+    }, options.signal);
+
+    for (const outcome of outcomes) {
+      if (!outcome) continue;
+      if ('reason' in outcome) {
+        batch.failures.push(outcome);
+      } else {
+        batch.results.push(outcome);
+      }
+    }
+
+    if (options.signal?.aborted) {
+      this.logger.warn(`停止要求により、${total - completed - skipped}件は分析していません`);
+    }
+    if (skipped > 0) {
+      this.logger.warn(`リクエスト数の上限（analysis.requestBudget）に達したため、${skipped}件は分析していません`);
+    }
+
+    // 入力URLが異なっていても同じページへ転送されたものは1件にまとめる
+    const collapsed = collapseSameSite(batch.results);
+    if (collapsed.length < batch.results.length) {
+      this.logger.info(`リダイレクト先が同じサイトの${batch.results.length - collapsed.length}件を1件にまとめました`);
+      batch.results = collapsed;
+    }
+
+    for (const sink of sinks) {
+      const paths = await sink.onComplete?.(batch);
+      (paths || []).forEach(path => this.emit('report-written', { path }));
+    }
+
+    return batch;
+  }
+
+  // 呼び出し元から渡されたブラウザは閉じない
+  public async close(): Promise<void> {
+    this.closed = true;
+    await this.browserPool.close();
+  }
+}
+
+// ライブラリ用の入口。結果はメモリ上で返し、sinks や screenshotDir を指定しない限りファイルを書き出さない
+export async function analyzeBusinesses(
+  businesses: BusinessInfo[],
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult[]> {
+  const { config, listeners, sinks, signal, ...analyzerOptions } = options;
+  const analyzer = new ProspectAnalyzer(config, analyzerOptions);
+  if (listeners) {
+    analyzer.subscribe(listeners);
+  }
+
+  try {
+    const batch = await analyzer.analyzeBusinesses(businesses, { sinks, signal });
+    return batch.results;
+  } finally {
+    await analyzer.close();
+  }
+}
@@ -0,0 +1,42 @@
+import { AxiosInstance } from 'axios';
+import { Page } from 'playwright';
+import { AnalysisCategory, AnalyzerConfig, BusinessInfo, Issue, Opportunity } from '../types';
+import { Logger } from '../logging/Logger';
+import { Politeness } from '../runner/Politeness';
+
+export interface AnalyzerContext {
+  url: string;
+  businessInfo: BusinessInfo;
+  config: AnalyzerConfig;
+  logger: Logger;
+  // 対象サイトへ追加でリクエストを送る場合は、送る前に politeness.acquire() を呼ぶ
+  politeness: Politeness;
+  // 対象サイトへの追加リクエストと外部APIの呼び出しに使う（プロキシ設定が適用済み。オフライン時は保存済みの内容を返す）
+  http: AxiosInstance;
+  // 保存済みのスナップショットを分析している（ネットワークにアクセスしない）
+  offline: boolean;
+}
+
+export interface AnalyzerOutput<T = unknown> {
+  score: number;
+  issues: Issue[];
+  opportunities: Opportunity[];
+  checkResult: T;
+}
+
+// カテゴリごとのチェック。AnalyzerRegistry に登録するとスコアリングとレポートに反映される
+export interface Analyzer<T = unknown> {
+  readonly category: AnalysisCategory;
+  // レポートに表示するカテゴリ名
+  readonly name: string;
+  // 総合スコアでの既定の重み（scoring.weights で上書きできる）
+  readonly weight: number;
+  // 制限時間の既定値（analysis.analyzerTimeouts で上書きできる）
+  readonly timeoutMs?: number;
+  // レポートの主な発見事項の文言（「N件の〜」に続く）
+  readonly finding: string;
+
+  // このスコア未満のサイトを主な発見事項として数える
+  threshold(config: AnalyzerConfig): number;
+  analyze(page: Page, context: AnalyzerContext): Promise<AnalyzerOutput<T>>;
+}
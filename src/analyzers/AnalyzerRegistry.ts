@@ -0,0 +1,49 @@
+import { AnalysisCategory } from '../types';
+import { Analyzer } from './Analyzer';
+import { PerformanceAnalyzer } from './PerformanceAnalyzer';
+import { MobileAnalyzer } from './MobileAnalyzer';
+import { SEOAnalyzer } from './SEOAnalyzer';
+import { ConversionAnalyzer } from './ConversionAnalyzer';
+import { ContentAnalyzer } from './ContentAnalyzer';
+
+export class AnalyzerRegistry {
+  // 登録順がレポートでのカテゴリの表示順になる
+  private analyzers = new Map<AnalysisCategory, Analyzer>();
+
+  register(analyzer: Analyzer): this {
+    if (this.analyzers.has(analyzer.category)) {
+      throw new Error(`カテゴリ ${analyzer.category} のアナライザーは登録済みです`);
+    }
+    this.analyzers.set(analyzer.category, analyzer);
+    return this;
+  }
+
+  unregister(category: AnalysisCategory): boolean {
+    return this.analyzers.delete(category);
+  }
+
+  get(category: AnalysisCategory): Analyzer | undefined {
+    return this.analyzers.get(category);
+  }
+
+  list(): Analyzer[] {
+    return Array.from(this.analyzers.values());
+  }
+
+  categories(): AnalysisCategory[] {
+    return Array.from(this.analyzers.keys());
+  }
+
+  // 登録が解除されたカテゴリ（過去の実行結果など）はカテゴリ名をそのまま表示する
+  label(category: AnalysisCategory): string {
+    return this.analyzers.get(category)?.name || category;
+  }
+}
+
+// 組み込みの5カテゴリを登録した既定のレジストリ（追加のカテゴリはここに register する）
+export const analyzerRegistry = new AnalyzerRegistry()
+  .register(new PerformanceAnalyzer())
+  .register(new MobileAnalyzer())
+  .register(new SEOAnalyzer())
+  .register(new ConversionAnalyzer())
+  .register(new ContentAnalyzer());
@@ -1,8 +1,19 @@
 import { Page } from 'playwright';
-import { ContentCheckResult, Issue, Opportunity } from '../types';
+import { ContentCheckResult, Issue, Opportunity, AnalyzerConfig } from '../types';
+import { CATEGORY_LABELS, DEFAULT_SCORING_WEIGHTS } from '../config/constants';
+import { Analyzer, AnalyzerOutput } from './Analyzer';
+
+export class ContentAnalyzer implements Analyzer<ContentCheckResult> {
+  readonly category = 'content';
+  readonly name = CATEGORY_LABELS.content;
+  readonly weight = DEFAULT_SCORING_WEIGHTS.content;
+  readonly finding = 'サイトでコンテンツが不足';
+
+  threshold(config: AnalyzerConfig): number {
+    return config.contentThreshold;
+  }
 
-export class ContentAnalyzer {
-  async analyze(page: Page): Promise<{ score: number; issues: Issue[]; opportunities: Opportunity[]; checkResult: ContentCheckResult }> {
+  async analyze(page: Page): Promise<AnalyzerOutput<ContentCheckResult>> {
     const checkResult = await this.performContentChecks(page);
     const score = this.calculateContentScore(checkResult);
     const issues = this.extractIssues(checkResult, score);
@@ -90,8 +101,8 @@ export class ContentAnalyzer {
     if (lastModified) {
       result.lastUpdated = new Date(lastModified);
     } else {
-      // フッターから年号を探す
-      const footerText = await page.textContent('footer') || '';
+      // フッターから年号を探す（footer 要素がないページでは要素の出現を待たない）
+      const footerText = await page.$eval('footer', el => el.textContent).catch(() => null) || '';
       const yearMatch = footerText.match(/20\d{2}/);
       if (yearMatch) {
         result.lastUpdated = new Date(`${yearMatch[0]}-01-01`);
@@ -140,7 +151,6 @@ export class ContentAnalyzer {
 
   private calculateQualityScore(result: ContentCheckResult): number {
     let score = 0;
-    let factors = 0;
 
     // 文章量
     if (result.totalWords >= 500) {
@@ -148,36 +158,30 @@ export class ContentAnalyzer {
     } else if (result.totalWords >= 300) {
       score += 10;
     }
-    factors++;
 
     // 画像の最適化
     if (result.hasImages && result.imagesWithAlt > 0) {
       const altRatio = result.imagesWithAlt / result.imageCount;
       score += Math.round(altRatio * 20);
     }
-    factors++;
 
     // マルチメディアコンテンツ
     if (result.hasVideoContent) {
       score += 15;
     }
-    factors++;
 
     // FAQ
     if (result.hasFAQ) {
       score += 15;
     }
-    factors++;
 
     // レビュー・お客様の声
     if (result.hasTestimonials) {
       score += 15;
     }
-    factors++;
 
     // 読みやすさ
     score += Math.round(result.readabilityScore * 0.15);
-    factors++;
 
     return Math.round(score);
   }
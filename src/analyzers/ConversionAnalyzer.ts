@@ -1,8 +1,19 @@
 import { Page } from 'playwright';
-import { ConversionCheckResult, Issue, Opportunity } from '../types';
+import { ConversionCheckResult, Issue, Opportunity, AnalyzerConfig } from '../types';
+import { CATEGORY_LABELS, DEFAULT_SCORING_WEIGHTS } from '../config/constants';
+import { Analyzer, AnalyzerOutput } from './Analyzer';
+
+export class ConversionAnalyzer implements Analyzer<ConversionCheckResult> {
+  readonly category = 'conversion';
+  readonly name = CATEGORY_LABELS.conversion;
+  readonly weight = DEFAULT_SCORING_WEIGHTS.conversion;
+  readonly finding = 'サイトで問い合わせ導線に問題';
+
+  threshold(config: AnalyzerConfig): number {
+    return config.conversionThreshold;
+  }
 
-export class ConversionAnalyzer {
-  async analyze(page: Page): Promise<{ score: number; issues: Issue[]; opportunities: Opportunity[]; checkResult: ConversionCheckResult }> {
+  async analyze(page: Page): Promise<AnalyzerOutput<ConversionCheckResult>> {
     const checkResult = await this.performConversionChecks(page);
     const score = this.calculateConversionScore(checkResult);
     const issues = this.extractIssues(checkResult, score);
@@ -1,8 +1,19 @@
 import { Page } from 'playwright';
-import { MobileCheckResult, Issue, Opportunity } from '../types';
+import { MobileCheckResult, Issue, Opportunity, AnalyzerConfig } from '../types';
+import { CATEGORY_LABELS, DEFAULT_SCORING_WEIGHTS } from '../config/constants';
+import { Analyzer, AnalyzerOutput } from './Analyzer';
+
+export class MobileAnalyzer implements Analyzer<MobileCheckResult> {
+  readonly category = 'mobile';
+  readonly name = CATEGORY_LABELS.mobile;
+  readonly weight = DEFAULT_SCORING_WEIGHTS.mobile;
+  readonly finding = 'サイトがモバイル対応不十分';
+
+  threshold(config: AnalyzerConfig): number {
+    return config.mobileThreshold;
+  }
 
-export class MobileAnalyzer {
-  async analyze(page: Page): Promise<{ score: number; issues: Issue[]; opportunities: Opportunity[]; checkResult: MobileCheckResult }> {
+  async analyze(page: Page): Promise<AnalyzerOutput<MobileCheckResult>> {
     const checkResult = await this.performMobileChecks(page);
     const score = this.calculateMobileScore(checkResult);
     const issues = this.extractIssues(checkResult, score);
@@ -50,7 +61,7 @@ export class MobileAnalyzer {
     // タッチターゲットサイズの確認
     const touchTargets = await page.$$('a, button, input, select, textarea');
     let adequateSizeCount = 0;
-    let totalTargets = Math.min(touchTargets.length, 20); // 最大20個まで確認
+    const totalTargets = Math.min(touchTargets.length, 20); // 最大20個まで確認
 
     for (let i = 0; i < totalTargets; i++) {
       const target = touchTargets[i];
@@ -65,7 +76,7 @@ export class MobileAnalyzer {
     // テキストサイズの確認
     const textElements = await page.$$('p, span, div, li');
     let readableTextCount = 0;
-    let totalTextElements = Math.min(textElements.length, 20); // 最大20個まで確認
+    const totalTextElements = Math.min(textElements.length, 20); // 最大20個まで確認
 
     for (let i = 0; i < totalTextElements; i++) {
       const element = textElements[i];
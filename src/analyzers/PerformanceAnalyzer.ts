@@ -1,36 +1,60 @@
-import axios from 'axios';
-import { PageSpeedResult, Issue, Opportunity } from '../types';
-import { API_ENDPOINTS, DEFAULT_ANALYZER_CONFIG } from '../config/constants';
-import winston from 'winston';
-
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.simple(),
-  transports: [new winston.transports.Console()]
-});
-
-export class PerformanceAnalyzer {
-  private apiKey: string | undefined;
-  private retryAttempts: number;
-  private retryDelay: number;
-
-  constructor() {
-    this.apiKey = process.env.PAGESPEED_API_KEY;
-    this.retryAttempts = DEFAULT_ANALYZER_CONFIG.retryAttempts;
-    this.retryDelay = DEFAULT_ANALYZER_CONFIG.retryDelay;
+import { AxiosInstance } from 'axios';
+import { Page } from 'playwright';
+import { PageSpeedResult, Issue, Opportunity, AnalyzerConfig } from '../types';
+import { API_ENDPOINTS, CATEGORY_LABELS, DEFAULT_SCORING_WEIGHTS } from '../config/constants';
+import { errorMessage } from '../logging/Logger';
+import { Analyzer, AnalyzerContext, AnalyzerOutput } from './Analyzer';
+
+type PerformanceMetrics = PageSpeedResult['metrics'];
+
+// PageSpeed Insights API の応答のうち、使用する項目
+interface LighthouseAudit {
+  title: string;
+  description: string;
+  score: number | null;
+  numericValue?: number;
+  displayValue?: string;
+  details?: { type?: string };
+}
+
+interface PageSpeedResponse {
+  lighthouseResult: {
+    audits: Record<string, LighthouseAudit>;
+    categories: { performance: { score: number } };
+  };
+}
+
+// ページではなくURLを PageSpeed Insights API で測定する
+export class PerformanceAnalyzer implements Analyzer<PerformanceMetrics> {
+  readonly category = 'performance';
+  readonly name = CATEGORY_LABELS.performance;
+  readonly weight = DEFAULT_SCORING_WEIGHTS.performance;
+  readonly finding = 'サイトで深刻な表示速度の問題を検出';
+
+  threshold(config: AnalyzerConfig): number {
+    return config.performanceThreshold;
   }
 
-  async analyze(url: string): Promise<{ score: number; issues: Issue[]; opportunities: Opportunity[]; metrics: any }> {
-    if (!this.apiKey) {
+  async analyze(_page: Page, context: AnalyzerContext): Promise<AnalyzerOutput<PerformanceMetrics>> {
+    const { url, config, logger, http, offline } = context;
+    const apiKey = config.pageSpeedApiKey || process.env.PAGESPEED_API_KEY;
+
+    // PageSpeed Insights は公開中のURLを測定するため、スナップショットでは測定できない
+    if (offline) {
+      logger.info('オフラインのため、表示速度は簡易測定モードで評価します。');
+      return this.fallbackAnalyze(url);
+    }
+
+    if (!apiKey) {
       logger.warn('PageSpeed APIキーが設定されていません。簡易測定モードで実行します。');
       return this.fallbackAnalyze(url);
     }
 
-    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+    for (let attempt = 1; attempt <= config.retryAttempts; attempt++) {
       try {
         const [mobileResult, desktopResult] = await Promise.all([
-          this.fetchPageSpeedData(url, 'mobile'),
-          this.fetchPageSpeedData(url, 'desktop')
+          this.fetchPageSpeedData(http, url, 'mobile', apiKey),
+          this.fetchPageSpeedData(http, url, 'desktop', apiKey)
         ]);
 
         // モバイルスコアを重視（7:3の比率）
@@ -49,14 +73,14 @@ export class PerformanceAnalyzer {
           score: combinedScore,
           issues,
           opportunities,
-          metrics
+          checkResult: metrics
         };
 
-      } catch (error: any) {
-        logger.warn(`PageSpeed API呼び出しエラー (試行 ${attempt}/${this.retryAttempts}):`, error.message);
+      } catch (error) {
+        logger.warn(`PageSpeed API呼び出しエラー (試行 ${attempt}/${config.retryAttempts}): ${errorMessage(error)}`);
         
-        if (attempt < this.retryAttempts) {
-          await new Promise(resolve => setTimeout(resolve, this.retryDelay));
+        if (attempt < config.retryAttempts) {
+          await new Promise(resolve => setTimeout(resolve, config.retryDelay));
         }
       }
     }
@@ -65,16 +89,21 @@ export class PerformanceAnalyzer {
     return this.fallbackAnalyze(url);
   }
 
-  private async fetchPageSpeedData(url: string, strategy: 'mobile' | 'desktop'): Promise<PageSpeedResult> {
+  private async fetchPageSpeedData(
+    http: AxiosInstance,
+    url: string,
+    strategy: 'mobile' | 'desktop',
+    apiKey: string
+  ): Promise<PageSpeedResult> {
     const params = {
       url,
-      key: this.apiKey,
+      key: apiKey,
       strategy,
       category: ['performance', 'accessibility', 'seo'],
       locale: 'ja'
     };
 
-    const response = await axios.get(API_ENDPOINTS.pageSpeed, {
+    const response = await http.get<PageSpeedResponse>(API_ENDPOINTS.pageSpeed, {
       params,
       timeout: 30000
     });
@@ -84,26 +113,26 @@ export class PerformanceAnalyzer {
 
     // Core Web Vitalsの抽出
     const metrics = {
-      lcp: lighthouse.audits['largest-contentful-paint']?.numericValue / 1000 || 0,
+      lcp: (lighthouse.audits['largest-contentful-paint']?.numericValue || 0) / 1000,
       cls: lighthouse.audits['cumulative-layout-shift']?.numericValue || 0,
       fid: lighthouse.audits['max-potential-fid']?.numericValue || 0,
-      ttfb: lighthouse.audits['server-response-time']?.numericValue / 1000 || 0,
-      fcp: lighthouse.audits['first-contentful-paint']?.numericValue / 1000 || 0,
+      ttfb: (lighthouse.audits['server-response-time']?.numericValue || 0) / 1000,
+      fcp: (lighthouse.audits['first-contentful-paint']?.numericValue || 0) / 1000,
       tbt: lighthouse.audits['total-blocking-time']?.numericValue || 0
     };
 
     // 改善提案の抽出
     const opportunities = Object.entries(lighthouse.audits)
-      .filter(([_, audit]: [string, any]) => 
+      .filter(([_, audit]) => 
         audit.score !== null && 
         audit.score < 0.9 && 
         audit.details?.type === 'opportunity'
       )
-      .map(([id, audit]: [string, any]) => ({
+      .map(([id, audit]) => ({
         id,
         title: audit.title,
         description: audit.description,
-        scoreImpact: Math.round((1 - audit.score) * 100),
+        scoreImpact: Math.round((1 - (audit.score ?? 0)) * 100),
         displayValue: audit.displayValue
       }));
 
@@ -248,7 +277,7 @@ export class PerformanceAnalyzer {
     return opportunities;
   }
 
-  private async fallbackAnalyze(_url: string): Promise<{ score: number; issues: Issue[]; opportunities: Opportunity[]; metrics: any }> {
+  private async fallbackAnalyze(_url: string): Promise<AnalyzerOutput<PerformanceMetrics>> {
     // 簡易的な分析（APIキーがない場合）
     const metrics = {
       lcp: 3.5,
@@ -280,7 +309,7 @@ export class PerformanceAnalyzer {
       score: 50, // デフォルトスコア
       issues,
       opportunities,
-      metrics
+      checkResult: metrics
     };
   }
 }
\ No newline at end of file
@@ -1,9 +1,26 @@
+import { AxiosInstance, AxiosResponse } from 'axios';
 import { Page } from 'playwright';
-import { SEOCheckResult, Issue, Opportunity } from '../types';
+import { SEOCheckResult, Issue, Opportunity, AnalyzerConfig } from '../types';
+import { CATEGORY_LABELS, DEFAULT_SCORING_WEIGHTS } from '../config/constants';
+import { Analyzer, AnalyzerContext, AnalyzerOutput } from './Analyzer';
+import { Politeness } from '../runner/Politeness';
+import { RequestBudgetExceededError } from '../runner/HostThrottle';
+import { NavigationError } from '../runner/FailureClassifier';
+
+const SEO_FETCH_TIMEOUT_MS = 10000;
+
+export class SEOAnalyzer implements Analyzer<SEOCheckResult> {
+  readonly category = 'seo';
+  readonly name = CATEGORY_LABELS.seo;
+  readonly weight = DEFAULT_SCORING_WEIGHTS.seo;
+  readonly finding = 'サイトでSEO対策が不十分';
+
+  threshold(config: AnalyzerConfig): number {
+    return config.seoThreshold;
+  }
 
-export class SEOAnalyzer {
-  async analyze(page: Page): Promise<{ score: number; issues: Issue[]; opportunities: Opportunity[]; checkResult: SEOCheckResult }> {
-    const checkResult = await this.performSEOChecks(page);
+  async analyze(page: Page, context: AnalyzerContext): Promise<AnalyzerOutput<SEOCheckResult>> {
+    const checkResult = await this.performSEOChecks(page, context.politeness, context.http);
     const score = this.calculateSEOScore(checkResult);
     const issues = this.extractIssues(checkResult, score);
     const opportunities = this.extractOpportunities(checkResult);
@@ -16,7 +33,7 @@ export class SEOAnalyzer {
     };
   }
 
-  private async performSEOChecks(page: Page): Promise<SEOCheckResult> {
+  private async performSEOChecks(page: Page, politeness: Politeness, http: AxiosInstance): Promise<SEOCheckResult> {
     const result: SEOCheckResult = {
       hasTitle: false,
       titleLength: 0,
@@ -104,17 +121,22 @@ export class SEOAnalyzer {
     const baseUrl = new URL(url).origin;
     
     try {
-      const robotsResponse = await page.context().request.get(`${baseUrl}/robots.txt`);
-      result.hasRobotsTxt = robotsResponse.status() === 200;
+      await politeness.acquire(`${baseUrl}/robots.txt`, { checkRobots: false });
+      const robotsResponse = await this.fetch(http, politeness, `${baseUrl}/robots.txt`);
+      result.hasRobotsTxt = robotsResponse.status === 200;
     } catch (e) {
+      if (e instanceof RequestBudgetExceededError) throw e;
       result.hasRobotsTxt = false;
     }
 
     try {
-      const sitemapResponse = await page.context().request.get(`${baseUrl}/sitemap.xml`);
-      result.hasSitemap = sitemapResponse.status() === 200;
+      await politeness.acquire(`${baseUrl}/sitemap.xml`);
+      const sitemapResponse = await this.fetch(http, politeness, `${baseUrl}/sitemap.xml`);
+      result.hasSitemap = sitemapResponse.status === 200;
     } catch (e) {
-      result.hasSitemap = false;
+      if (e instanceof RequestBudgetExceededError) throw e;
+      // 取得を禁止されている場合は有無がわからないため、未確認として減点・指摘の対象にしない
+      result.hasSitemap = e instanceof NavigationError && e.reason === 'RobotsDisallowed' ? null : false;
     }
 
     // キーワード抽出（本文から）
@@ -124,6 +146,16 @@ export class SEOAnalyzer {
     return result;
   }
 
+  // ステータスのみを確認する（スナップショットの保存・再生と同じクライアントを通す）
+  private fetch(http: AxiosInstance, politeness: Politeness, url: string): Promise<AxiosResponse<string>> {
+    return http.get<string>(url, {
+      headers: politeness.userAgent ? { 'User-Agent': politeness.userAgent } : undefined,
+      responseType: 'text',
+      timeout: SEO_FETCH_TIMEOUT_MS,
+      validateStatus: () => true
+    });
+  }
+
   private calculateSEOScore(result: SEOCheckResult): number {
     let score = 100;
 
@@ -167,7 +199,7 @@ export class SEOAnalyzer {
     if (!result.hasRobotsTxt) {
       score -= 5;
     }
-    if (!result.hasSitemap) {
+    if (result.hasSitemap === false) {
       score -= 5;
     }
 
@@ -251,7 +283,7 @@ export class SEOAnalyzer {
       });
     }
 
-    if (!result.hasSitemap) {
+    if (result.hasSitemap === false) {
       issues.push({
         category: 'SEO',
         severity: 'Medium',
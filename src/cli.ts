@@ -0,0 +1,798 @@
+import { existsSync, mkdirSync } from 'fs';
+import { constants as osConstants } from 'os';
+import { dirname, join } from 'path';
+import * as dotenv from 'dotenv';
+import winston from 'winston';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+
+import {
+  BusinessInfo,
+  AnalysisResult,
+  AppConfig,
+  ProspectChange,
+  OutputEncoding,
+  InputFormat,
+  LogLevel
+} from './types';
+import { ProspectAnalyzer } from './ProspectAnalyzer';
+import { MarkdownReporter } from './reporting/MarkdownReporter';
+import { ReportSink } from './reporting/ReportSink';
+import { GoogleMapsCollector } from './collectors/GoogleMapsCollector';
+import { RunJournal } from './runner/RunJournal';
+import { ProxyRotator } from './runner/ProxyRotator';
+import { collapseSameSite } from './runner/collapseSameSite';
+import { sortByInput } from './runner/sortByInput';
+import { ConfigLoader } from './config/ConfigLoader';
+import { hashConfig } from './config/configHash';
+import { HistoryStore } from './history/HistoryStore';
+import { HistoryReporter } from './reporting/HistoryReporter';
+import { RunComparator, RunSnapshot } from './history/RunComparator';
+import { DiffReporter } from './reporting/DiffReporter';
+import { ApiServer } from './server/ApiServer';
+import { TextReporter } from './reporting/TextReporter';
+import { InputValidator, ValidationReport, formatInputLocation } from './input/InputValidator';
+import { withScheme } from './input/canonicalUrl';
+import { SnapshotSet } from './snapshot/SnapshotSet';
+import { ProgressReporter } from './reporting/ProgressReporter';
+import { errorMessage } from './logging/Logger';
+import {
+  DEFAULT_APP_CONFIG,
+  DEFAULT_CONFIG_PATH,
+  INDUSTRY_CONFIGS,
+  OUTPUT_ENCODINGS,
+  LOG_LEVELS,
+  INPUT_ENCODING_LABELS,
+  INPUT_FORMATS,
+  SUCCESS_MESSAGES,
+  FILE_PATHS
+} from './config/constants';
+
+// 環境変数の読み込み
+dotenv.config();
+
+// CLIで表示中の進捗バー（ログ出力の前後で消して描き直す）
+let progressReporter: ProgressReporter | null = null;
+
+const clearProgress = winston.format(info => {
+  progressReporter?.clear();
+  return info;
+});
+
+// ログは標準エラー出力へ（標準出力は analyze-url の結果出力に使う）
+// runId・url は実行ログ（JSON）で絞り込むためのフィールドのため、コンソールには表示しない
+const omitLogFields = winston.format(info => {
+  delete info.runId;
+  delete info.url;
+  return info;
+});
+
+const consoleTransport = new winston.transports.Console({
+  format: winston.format.combine(clearProgress(), omitLogFields(), winston.format.simple()),
+  stderrLevels: Object.keys(winston.config.npm.levels)
+});
+consoleTransport.on('logged', () => progressReporter?.redraw());
+
+// ロガーの設定
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.File({ filename: FILE_PATHS.ERROR_LOG, level: 'error' }),
+    consoleTransport
+  ]
+});
+
+// SIGINT / SIGTERM を受けたときに実行中の処理を止める方法（未登録のコマンドはそのまま終了する）
+let shutdownHandler: ((signal: NodeJS.Signals) => void) | null = null;
+let receivedSignal: NodeJS.Signals | null = null;
+
+function signalExitCode(signal: NodeJS.Signals): number {
+  return 128 + (osConstants.signals[signal] || 0);
+}
+
+function handleSignals(): void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    // 2回目のシグナル（Ctrl+C の連打など）は待たずに終了する
+    if (receivedSignal || !shutdownHandler) {
+      process.exit(signalExitCode(signal));
+    }
+    receivedSignal = signal;
+    shutdownHandler(signal);
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+}
+
+interface SnapshotOptions {
+  // 保存済みのページを分析する（入力がフォルダの場合）
+  snapshots?: SnapshotSet;
+  // 分析したページを保存する（snapshot コマンド）
+  snapshotDir?: string;
+}
+
+// CLIではログをファイルにも残し、スクリーンショットを output/ に保存する
+function createAnalyzer(
+  config: AppConfig,
+  journal?: RunJournal,
+  snapshotOptions: SnapshotOptions = {},
+  runLogger: winston.Logger = logger
+): ProspectAnalyzer {
+  return new ProspectAnalyzer(config, {
+    logger: runLogger,
+    screenshotDir: FILE_PATHS.SCREENSHOTS_DIR,
+    debugDir: journal?.debugDir,
+    ...snapshotOptions,
+    concurrency: Number(process.env.MAX_CONCURRENT_ANALYSES) || undefined
+  });
+}
+
+// 以降のログを実行フォルダにも JSON Lines で書き出し、runId を付けたロガーを返す
+function openRunLog(journal: RunJournal): winston.Logger {
+  logger.add(new winston.transports.File({ filename: journal.logPath }));
+  return logger.child({ runId: journal.runId });
+}
+
+async function loadBusinesses(config: AppConfig, filePath: string, runLogger: winston.Logger): Promise<BusinessInfo[]> {
+  let report: ValidationReport;
+  try {
+    report = await new InputValidator(config.input).validateFile(filePath);
+  } catch (error) {
+    runLogger.error('入力ファイル読み込みエラー:', error);
+    throw new Error('入力ファイルの読み込みに失敗しました。');
+  }
+
+  if (report.encoding === 'cp932') {
+    runLogger.info(`入力ファイルを${INPUT_ENCODING_LABELS[report.encoding]}として読み込みました。`);
+  }
+
+  // 不正なURLの行は分析対象外。警告は件数のみ表示する
+  const errors = report.issues.filter(issue => issue.severity === 'error');
+  errors.forEach(issue => runLogger.warn(`${formatInputLocation(issue.line, report.lineUnit)}: ${issue.message}`));
+
+  const warningCount = report.issues.length - errors.length;
+  if (warningCount > 0) {
+    runLogger.warn(`入力ファイルに${warningCount}件の警告があります（詳細は validate コマンドで確認できます）。`);
+  }
+
+  if (report.businesses.length === 0 && errors.length > 0) {
+    throw new Error('分析できる行がありません。入力ファイルを確認してください。');
+  }
+
+  return report.businesses;
+}
+
+function loadSnapshotBusinesses(snapshots: SnapshotSet, runLogger: winston.Logger): BusinessInfo[] {
+  snapshots.issues.forEach(issue => runLogger.warn(`スナップショット: ${issue}`));
+  if (snapshots.businesses.length === 0) {
+    throw new Error(`分析できるページがありません: ${snapshots.dir}`);
+  }
+  runLogger.info(`保存済みのページを分析します（ネットワークにはアクセスしません）: ${snapshots.dir}`);
+  return snapshots.businesses;
+}
+
+async function analyzeInputFile(
+  analyzer: ProspectAnalyzer,
+  config: AppConfig,
+  journal: RunJournal,
+  runLogger: winston.Logger,
+  inputPath?: string,
+  snapshots?: SnapshotSet
+): Promise<void> {
+  runLogger.info(`実行ID: ${journal.runId}`);
+
+  // 入力ファイル読み込み
+  const businesses = snapshots ?
+    loadSnapshotBusinesses(snapshots, runLogger) :
+    await loadBusinesses(config, inputPath || journal.meta.inputPath, runLogger);
+  const analyzedUrls = journal.getAnalyzedUrls();
+  const pendingBusinesses = businesses.filter(business => !analyzedUrls.has(business.url));
+
+  if (analyzedUrls.size > 0) {
+    runLogger.info(`${businesses.length - pendingBusinesses.length}件は分析済みのためスキップします。`);
+  }
+  runLogger.info(`${pendingBusinesses.length}件のURLを分析します。`);
+
+  // 停止要求を受けたら新しいURLの分析を止め、猶予時間内は実行中の分析の完了を待つ
+  const controller = new AbortController();
+  const { shutdownGracePeriodMs } = config.analysis;
+  const gracePeriodExpired = new Promise<void>(resolve => {
+    shutdownHandler = signal => {
+      runLogger.warn(`${signal} を受信しました。新しいURLの分析を停止し、実行中の分析の完了を最大${Math.round(shutdownGracePeriodMs / 1000)}秒待ちます（もう一度押すと即時終了します）。`);
+      controller.abort();
+      setTimeout(resolve, shutdownGracePeriodMs).unref();
+    };
+  });
+
+  // 並行分析（同時実行数制限あり）。完了した結果は即座にジャーナルへ追記する
+  await Promise.race([
+    analyzer.analyzeBusinesses(pendingBusinesses, { sinks: [journal], signal: controller.signal }),
+    gracePeriodExpired.then(() => runLogger.warn('猶予時間を過ぎたため、実行中の分析を待たずにレポートを出力します。'))
+  ]);
+
+  // ジャーナル全体（再開前の結果を含む）から、入力の行順でレポートを生成
+  const results = collapseSameSite(sortByInput(journal.load(), businesses));
+  const failures = sortByInput(journal.loadFailures(), businesses);
+  // アクセス不可と判定されたURLも処理済みとして数える（--resume では再試行される）
+  const doneUrls = new Set([...journal.load(), ...failures].map(outcome => outcome.url));
+  const pendingCount = businesses.filter(business => !doneUrls.has(business.url)).length;
+
+  runLogger.info(pendingCount > 0 ? '途中結果のレポートを生成しています...' : 'レポートを生成しています...');
+  const reportPaths = await new ReportSink(dirname(FILE_PATHS.CSV_REPORT), config.reporting, config.analysis)
+    .write(results, failures, pendingCount);
+  reportPaths.forEach(path => analyzer.emit('report-written', { path }));
+
+  // スナップショットの再分析はサイトの変化ではないため、履歴には残さない
+  if (!snapshots) {
+    await recordHistory(config, journal.runId, results, runLogger);
+  }
+
+  if (pendingCount > 0) {
+    runLogger.warn(`${pendingCount}件が未分析のため、途中結果として出力しました。続きは --resume ${journal.runId} で再開できます。`);
+  } else {
+    runLogger.info(SUCCESS_MESSAGES.ANALYSIS_COMPLETE);
+  }
+  runLogger.info(`結果: ${results.length}件の分析完了、${failures.length}件アクセス不可`);
+  runLogger.info(`高優先度: ${results.filter(r => r.priority === 'High').length}件`);
+  runLogger.info(`レポート: ${reportPaths.join(', ')}`);
+  runLogger.info(`ジャーナル: ${FILE_PATHS.RUNS_DIR}${journal.runId}/`);
+}
+
+async function recordHistory(config: AppConfig, runId: string, results: AnalysisResult[], runLogger: winston.Logger): Promise<void> {
+  // 履歴の保存に失敗してもレポートは出力済みなので警告にとどめる
+  try {
+    const store = await HistoryStore.open();
+    try {
+      store.record(runId, hashConfig(config), results);
+    } finally {
+      store.close();
+    }
+  } catch (error) {
+    runLogger.warn('分析履歴の保存に失敗しました:', error);
+  }
+}
+
+function loadConfigOrExit(configPath?: string, csvEncoding?: OutputEncoding, inputFormat?: InputFormat): AppConfig {
+  // 設定ファイルの読み込み（明示指定されたファイルは必須）
+  try {
+    const config = loadConfig(configPath);
+
+    // コマンドラインの指定を設定ファイルより優先する
+    return {
+      ...config,
+      reporting: csvEncoding ? { ...config.reporting, csvEncoding } : config.reporting,
+      input: inputFormat ? { ...config.input, format: inputFormat } : config.input
+    };
+  } catch (error) {
+    console.error(`エラー: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+}
+
+// --har / --trace の指定を設定ファイルより優先する
+function withRecordingOptions(config: AppConfig, har?: boolean, trace?: boolean): AppConfig {
+  return {
+    ...config,
+    analysis: {
+      ...config.analysis,
+      recordHar: har ?? config.analysis.recordHar,
+      recordTrace: trace ?? config.analysis.recordTrace
+    }
+  };
+}
+
+function loadConfig(configPath?: string): AppConfig {
+  if (!configPath && !existsSync(DEFAULT_CONFIG_PATH)) {
+    logger.warn(`設定ファイル ${DEFAULT_CONFIG_PATH} が見つからないため、デフォルト設定で実行します。`);
+    return DEFAULT_APP_CONFIG;
+  }
+
+  const config = new ConfigLoader().load(configPath || DEFAULT_CONFIG_PATH);
+  logger.info(`設定ファイルを読み込みました: ${configPath || DEFAULT_CONFIG_PATH}`);
+  return config;
+}
+
+async function validateInputOrExit(config: AppConfig, inputPath: string): Promise<ValidationReport> {
+  if (!existsSync(inputPath)) {
+    console.error(`エラー: ファイルが見つかりません: ${inputPath}`);
+    process.exit(1);
+  }
+
+  try {
+    if (SnapshotSet.isSnapshotDir(inputPath)) {
+      return snapshotValidationReport(SnapshotSet.open(inputPath));
+    }
+    return await new InputValidator(config.input).validateFile(inputPath);
+  } catch (error) {
+    console.error(`エラー: 入力ファイルを読み込めません: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+}
+
+// 保存済みページのフォルダは、読み込めなかったファイルを警告として表示する
+function snapshotValidationReport(snapshots: SnapshotSet): ValidationReport {
+  return {
+    lineUnit: 'record',
+    businesses: snapshots.businesses,
+    issues: snapshots.issues.map(message => ({ line: 0, severity: 'warning' as const, message })),
+    totalRows: snapshots.businesses.length + snapshots.issues.length
+  };
+}
+
+function printValidationReport(inputPath: string, report: ValidationReport): void {
+  const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+
+  const details = [
+    `${report.totalRows}${report.lineUnit === 'line' ? '行' : '件'}`,
+    report.format && `形式: ${report.format.toUpperCase()}`,
+    report.encoding && `文字コード: ${INPUT_ENCODING_LABELS[report.encoding]}`
+  ].filter(Boolean);
+  console.log(`入力ファイル: ${inputPath}（${details.join('、')}）`);
+  [...report.issues]
+    .sort((a, b) => a.line - b.line)
+    .forEach(issue => {
+      const location = formatInputLocation(issue.line, report.lineUnit);
+      console.log(`  ${location} [${issue.severity === 'error' ? 'エラー' : '警告'}] ${issue.message}`);
+    });
+  console.log(`分析対象: ${report.businesses.length}件 / エラー: ${errorCount}件 / 警告: ${warningCount}件`);
+}
+
+async function runValidate(config: AppConfig, inputPath: string): Promise<void> {
+  const report = await validateInputOrExit(config, inputPath);
+  printValidationReport(inputPath, report);
+  process.exit(report.issues.some(issue => issue.severity === 'error') ? 1 : 0);
+}
+
+async function runDryRun(config: AppConfig, inputPath?: string, resumeRunId?: string): Promise<void> {
+  let analyzedUrls = new Set<string>();
+  if (resumeRunId) {
+    try {
+      const journal = RunJournal.open(resumeRunId);
+      inputPath = inputPath || journal.meta.inputPath;
+      analyzedUrls = journal.getAnalyzedUrls();
+    } catch (error) {
+      console.error(`エラー: ${errorMessage(error)}`);
+      process.exit(1);
+    }
+  }
+
+  const report = await validateInputOrExit(config, inputPath!);
+  printValidationReport(inputPath!, report);
+
+  const pending = report.businesses.filter(business => !analyzedUrls.has(business.url));
+  if (analyzedUrls.size > 0) {
+    console.log(`分析済みのためスキップ: ${report.businesses.length - pending.length}件`);
+  }
+  console.log(`ドライラン: ブラウザは起動していません。実行すると${pending.length}件を分析します。`);
+  process.exit(report.issues.some(issue => issue.severity === 'error') ? 1 : 0);
+}
+
+async function runAnalyze(
+  config: AppConfig,
+  inputPath?: string,
+  resumeRunId?: string,
+  dryRun = false,
+  snapshot?: { outputDir?: string }
+): Promise<void> {
+  if (!inputPath && !resumeRunId) {
+    console.error('エラー: 入力ファイルのパスを指定してください。');
+    process.exit(1);
+  }
+
+  if (inputPath && !existsSync(inputPath)) {
+    console.error(`エラー: ファイルが見つかりません: ${inputPath}`);
+    process.exit(1);
+  }
+
+  // 入力の検証のみ行い、ブラウザは起動しない
+  if (dryRun) {
+    await runDryRun(config, inputPath, resumeRunId);
+    return;
+  }
+
+  // 実行ジャーナルの準備（再開時は既存のジャーナルを開く）
+  let journal: RunJournal;
+  try {
+    journal = resumeRunId ? RunJournal.open(resumeRunId) : RunJournal.create(inputPath!);
+  } catch (error) {
+    console.error(`エラー: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+
+  // 入力がフォルダの場合は保存済みのページを分析する（再開時も同じ）
+  const sourcePath = inputPath || journal.meta.inputPath;
+  let snapshots: SnapshotSet | undefined;
+  try {
+    snapshots = SnapshotSet.isSnapshotDir(sourcePath) ? SnapshotSet.open(sourcePath) : undefined;
+  } catch (error) {
+    console.error(`エラー: 保存済みのページを読み込めません: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+
+  // snapshot コマンドでは分析したページを保存する（保存先の既定は実行IDごとのフォルダ）
+  const savedSnapshotDir = snapshot && !snapshots ?
+    snapshot.outputDir || join(FILE_PATHS.SNAPSHOTS_DIR, journal.runId) :
+    undefined;
+  const runLogger = openRunLog(journal);
+  const analyzer = createAnalyzer(config, journal, { snapshots, snapshotDir: savedSnapshotDir }, runLogger);
+  progressReporter = new ProgressReporter();
+  progressReporter.attach(analyzer);
+
+  try {
+    await analyzeInputFile(analyzer, config, journal, runLogger, inputPath, snapshots);
+    if (savedSnapshotDir) {
+      runLogger.info(`スナップショット: ${savedSnapshotDir}（npm run analyze -- ${savedSnapshotDir} でネットワークなしに再分析できます）`);
+    }
+    await analyzer.close();
+    process.exit(receivedSignal ? signalExitCode(receivedSignal) : 0);
+  } catch (error) {
+    runLogger.error('実行エラー:', error);
+    await analyzer.close();
+    process.exit(1);
+  }
+}
+
+// input/collected_20240115.csv
+function defaultCollectedCsvPath(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${FILE_PATHS.COLLECTED_CSV_PREFIX}${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}.csv`;
+}
+
+async function runCollect(config: AppConfig, outputPath: string, analyzeAfter: boolean, force: boolean): Promise<void> {
+  if (config.targets.length === 0) {
+    console.error('エラー: 設定ファイルに収集対象（targets）がありません。');
+    process.exit(1);
+  }
+
+  // 手作業で作ったURLリストを消さないよう、既存のファイルは --force がなければ上書きしない（API呼び出しの前に確認する）
+  if (existsSync(outputPath) && !force) {
+    console.error(`エラー: ${outputPath} は既に存在します。上書きする場合は --force を指定してください。`);
+    process.exit(1);
+  }
+
+  const collector = new GoogleMapsCollector(
+    config.analysis.googleMapsApiKey,
+    new ProxyRotator(config.proxy).createHttpClient(),
+    logger
+  );
+
+  try {
+    const businesses = await collector.collectTargets(config.targets, config.filters);
+    if (businesses.length === 0) {
+      logger.warn('条件に合う事業者が見つかりませんでした。');
+      process.exit(1);
+    }
+
+    await collector.exportToCSV(businesses, outputPath, config.reporting.csvEncoding);
+  } catch (error) {
+    logger.error('収集エラー:', error);
+    process.exit(1);
+  }
+
+  // 収集結果をそのまま分析にかける
+  if (analyzeAfter) {
+    await runAnalyze(config, outputPath);
+  }
+}
+
+async function runHistory(url: string): Promise<void> {
+  try {
+    const store = await HistoryStore.open();
+    const entries = store.getHistory(url);
+    store.close();
+
+    console.log(new HistoryReporter().render(url, entries));
+    process.exit(entries.length > 0 ? 0 : 1);
+  } catch (error) {
+    logger.error('履歴の読み込みエラー:', error);
+    process.exit(1);
+  }
+}
+
+function loadRunSnapshot(runId: string): RunSnapshot {
+  const journal = RunJournal.open(runId);
+  return {
+    runId: journal.runId,
+    startedAt: journal.meta.startedAt,
+    results: journal.load(),
+    failures: journal.loadFailures()
+  };
+}
+
+async function runDiff(config: AppConfig, baseRunId: string, targetRunId: string): Promise<void> {
+  try {
+    const diff = new RunComparator().compare(loadRunSnapshot(baseRunId), loadRunSnapshot(targetRunId));
+
+    mkdirSync(dirname(FILE_PATHS.DIFF_MARKDOWN_REPORT), { recursive: true });
+    await new DiffReporter(config.reporting).generate(diff);
+
+    const count = (change: ProspectChange) => diff.prospects.filter(prospect => prospect.change === change).length;
+    logger.info(`比較結果: 改善 ${count('Improved')}件、悪化 ${count('Worsened')}件、アクセス不可に ${count('WentDown')}件`);
+    logger.info(`レポート: ${FILE_PATHS.DIFF_CSV_REPORT}, ${FILE_PATHS.DIFF_MARKDOWN_REPORT}`);
+    process.exit(0);
+  } catch (error) {
+    console.error(`エラー: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+}
+
+async function runServe(config: AppConfig, port: number, host: string): Promise<void> {
+  const analyzer = createAnalyzer(config);
+  const server = new ApiServer(analyzer, config, logger);
+
+  try {
+    await server.listen(port, host);
+    logger.info(`APIサーバーを起動しました: http://${host}:${port}`);
+  } catch (error) {
+    console.error(`エラー: APIサーバーを起動できません: ${errorMessage(error)}`);
+    process.exit(1);
+  }
+
+  const shutdown = async () => {
+    logger.info('APIサーバーを停止しています...');
+    await server.close();
+    await analyzer.close();
+    process.exit(0);
+  };
+  shutdownHandler = () => {
+    void shutdown();
+  };
+}
+
+type OutputFormat = 'json' | 'md' | 'text';
+
+// 終了コード: 0 = 分析完了、2 = サイトにアクセスできない、1 = その他のエラー
+async function runAnalyzeUrl(config: AppConfig, url: string, industry: string | undefined, format: OutputFormat): Promise<void> {
+  const normalizedUrl = withScheme(url);
+  try {
+    new URL(normalizedUrl);
+  } catch (e) {
+    console.error(`エラー: URLの形式が不正です: ${url}`);
+    process.exit(1);
+  }
+
+  const analyzer = createAnalyzer(config);
+  shutdownHandler = signal => {
+    // ブラウザを残さないよう閉じてから終了する
+    void analyzer.close().finally(() => process.exit(signalExitCode(signal)));
+  };
+
+  try {
+    const outcome = await analyzer.analyzeUrl({ url: normalizedUrl, industry });
+
+    const output = format === 'json' ?
+      JSON.stringify(outcome, null, 2) :
+      format === 'md' ?
+        new MarkdownReporter(config.reporting, config.analysis).renderProspect(outcome) :
+        new TextReporter().render(outcome);
+    process.stdout.write(output + '\n');
+
+    await analyzer.close();
+    process.exit('reason' in outcome ? 2 : 0);
+  } catch (error) {
+    logger.error('分析エラー:', error);
+    await analyzer.close();
+    process.exit(1);
+  }
+}
+
+// CLIエントリーポイント
+async function main() {
+  handleSignals();
+
+  await yargs(hideBin(process.argv))
+    .usage('Usage: $0 <input-file> | $0 --resume <run-id> | $0 collect | $0 history <url> | $0 diff <base-run> <target-run> | $0 serve | $0 analyze-url <url> | $0 validate <input-file> | $0 snapshot <input-file>')
+    .option('config', {
+      alias: 'c',
+      describe: `設定ファイルのパス（デフォルト: ${DEFAULT_CONFIG_PATH}）`,
+      type: 'string'
+    })
+    .option('csv-encoding', {
+      describe: '出力するCSVの文字コード（デフォルト: utf-8-bom。Excel 用に cp932 も指定可）',
+      choices: OUTPUT_ENCODINGS
+    })
+    .option('log-level', {
+      describe: 'ログの出力レベル（debug で分析ごとの所要時間やページ遷移も出力）',
+      choices: LOG_LEVELS,
+      default: 'info' as LogLevel
+    })
+    .middleware(argv => {
+      logger.level = argv.logLevel;
+    })
+    .command(
+      '$0 [input-file]',
+      'URLリストを分析してレポートを生成',
+      command => command
+        .positional('input-file', {
+          describe: '分析するURLリストのファイル（CSV / TSV / JSON / JSONL / XLSX）、または保存済みのページのフォルダ',
+          type: 'string'
+        })
+        .option('input-format', {
+          describe: '入力ファイルの形式（デフォルト: 拡張子から判定）',
+          choices: INPUT_FORMATS
+        })
+        .option('resume', {
+          describe: '中断した実行を実行IDを指定して再開',
+          type: 'string'
+        })
+        .option('dry-run', {
+          describe: '入力ファイルの検証と分析件数の確認のみ行う（ブラウザを起動しない）',
+          type: 'boolean',
+          default: false
+        })
+        .option('har', {
+          describe: 'ページごとのHARをスクリーンショットと同じフォルダに保存（設定の analysis.recordHar より優先）',
+          type: 'boolean'
+        })
+        .option('trace', {
+          describe: 'ページごとのPlaywrightトレースを保存（設定の analysis.recordTrace より優先）',
+          type: 'boolean'
+        }),
+      async argv => {
+        const config = withRecordingOptions(loadConfigOrExit(argv.config, argv.csvEncoding, argv.inputFormat), argv.har, argv.trace);
+        await runAnalyze(config, argv.inputFile, argv.resume, argv.dryRun);
+      }
+    )
+    .command(
+      'snapshot <input-file>',
+      'URLリストを分析し、ページを保存（保存したフォルダを入力にするとネットワークなしで再分析）',
+      command => command
+        .positional('input-file', {
+          describe: '分析するURLリストのファイル（CSV / TSV / JSON / JSONL / XLSX）',
+          type: 'string',
+          demandOption: true
+        })
+        .option('input-format', {
+          describe: '入力ファイルの形式（デフォルト: 拡張子から判定）',
+          choices: INPUT_FORMATS
+        })
+        .option('output', {
+          alias: 'o',
+          describe: `ページの保存先フォルダ（デフォルト: ${FILE_PATHS.SNAPSHOTS_DIR}<実行ID>）`,
+          type: 'string'
+        }),
+      async argv => {
+        const config = loadConfigOrExit(argv.config, argv.csvEncoding, argv.inputFormat);
+        await runAnalyze(config, argv.inputFile, undefined, false, { outputDir: argv.output });
+      }
+    )
+    .command(
+      'validate <input-file>',
+      '入力ファイルを検証（不正なURL・重複ドメイン・不明な業種・不足している列）',
+      command => command
+        .positional('input-file', {
+          describe: '検証するURLリストのファイル（CSV / TSV / JSON / JSONL / XLSX）',
+          type: 'string',
+          demandOption: true
+        })
+        .option('input-format', {
+          describe: '入力ファイルの形式（デフォルト: 拡張子から判定）',
+          choices: INPUT_FORMATS
+        }),
+      async argv => {
+        await runValidate(loadConfigOrExit(argv.config, undefined, argv.inputFormat), argv.inputFile);
+      }
+    )
+    .command(
+      'collect',
+      '設定ファイルの targets から Google Maps で事業者を収集してCSVを出力',
+      command => command
+        .option('output', {
+          alias: 'o',
+          describe: `出力するCSVファイルのパス（デフォルト: ${FILE_PATHS.COLLECTED_CSV_PREFIX}<収集日>.csv）`,
+          type: 'string'
+        })
+        .option('force', {
+          describe: '出力先のファイルが既にある場合も上書きする',
+          type: 'boolean',
+          default: false
+        })
+        .option('analyze', {
+          describe: '収集後にそのまま分析を実行',
+          type: 'boolean',
+          default: false
+        }),
+      async argv => {
+        await runCollect(loadConfigOrExit(argv.config, argv.csvEncoding), argv.output || defaultCollectedCsvPath(), argv.analyze, argv.force);
+      }
+    )
+    .command(
+      'history <url>',
+      '指定URLの過去の分析結果とスコア推移を表示',
+      command => command
+        .positional('url', {
+          describe: '履歴を表示するURL',
+          type: 'string',
+          demandOption: true
+        }),
+      async argv => {
+        await runHistory(argv.url);
+      }
+    )
+    .command(
+      'diff <base-run> <target-run>',
+      '2つの実行の分析結果を比較して差分レポートを生成',
+      command => command
+        .positional('base-run', {
+          describe: '比較元の実行ID',
+          type: 'string',
+          demandOption: true
+        })
+        .positional('target-run', {
+          describe: '比較先の実行ID',
+          type: 'string',
+          demandOption: true
+        }),
+      async argv => {
+        await runDiff(loadConfigOrExit(argv.config, argv.csvEncoding), argv.baseRun, argv.targetRun);
+      }
+    )
+    .command(
+      'serve',
+      '分析を受け付けるHTTP APIサーバーを起動',
+      command => command
+        .option('port', {
+          alias: 'p',
+          describe: '待ち受けるポート番号',
+          type: 'number',
+          default: 3000
+        })
+        .option('host', {
+          describe: '待ち受けるアドレス（Docker から公開する場合は 0.0.0.0）',
+          type: 'string',
+          default: '127.0.0.1'
+        }),
+      async argv => {
+        await runServe(loadConfigOrExit(argv.config, argv.csvEncoding), argv.port, argv.host);
+      }
+    )
+    .command(
+      'analyze-url <url>',
+      '1件のURLを分析して結果を標準出力に表示',
+      command => command
+        .positional('url', {
+          describe: '分析するURL',
+          type: 'string',
+          demandOption: true
+        })
+        .option('industry', {
+          describe: '業種（スコアの重み付けに使用）',
+          type: 'string',
+          choices: Object.keys(INDUSTRY_CONFIGS).filter(industry => industry !== 'default')
+        })
+        .option('format', {
+          alias: 'f',
+          describe: '出力形式',
+          choices: ['json', 'md', 'text'] as const,
+          default: 'text' as const
+        })
+        .option('har', {
+          describe: 'ページごとのHARをスクリーンショットと同じフォルダに保存（設定の analysis.recordHar より優先）',
+          type: 'boolean'
+        })
+        .option('trace', {
+          describe: 'ページごとのPlaywrightトレースを保存（設定の analysis.recordTrace より優先）',
+          type: 'boolean'
+        }),
+      async argv => {
+        const config = withRecordingOptions(loadConfigOrExit(argv.config, argv.csvEncoding), argv.har, argv.trace);
+        await runAnalyzeUrl(config, argv.url, argv.industry, argv.format);
+      }
+    )
+    .help()
+    .alias('help', 'h')
+    .parseAsync();
+}
+
+// 直接実行された場合
+if (require.main === module) {
+  main().catch(error => {
+    console.error('予期しないエラー:', error);
+    process.exit(1);
+  });
+}
@@ -1,15 +1,11 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import { stringify } from 'csv-stringify/sync';
-import { writeFileSync } from 'fs';
-import { BusinessInfo } from '../types';
-import { API_ENDPOINTS } from '../config/constants';
-import winston from 'winston';
-
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.simple(),
-  transports: [new winston.transports.Console()]
-});
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { BusinessInfo, CollectionTarget, CollectionFilters, OutputEncoding } from '../types';
+import { API_ENDPOINTS, CATEGORY_PLACE_TYPES, DEFAULT_REPORTING_CONFIG, ERROR_MESSAGES } from '../config/constants';
+import { encodeOutput } from '../reporting/encodeOutput';
+import { Logger, createConsoleLogger } from '../logging/Logger';
 
 interface SearchParams {
   location: string;
@@ -51,14 +47,73 @@ interface PlaceDetails {
 
 export class GoogleMapsCollector {
   private apiKey: string | undefined;
+  private http: AxiosInstance;
+  private logger: Logger;
 
-  constructor() {
-    this.apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  constructor(apiKey?: string, http: AxiosInstance = axios, logger: Logger = createConsoleLogger()) {
+    this.apiKey = apiKey || process.env.GOOGLE_MAPS_API_KEY;
+    this.http = http;
+    this.logger = logger;
   }
 
-  async collectBusinesses(params: SearchParams, config?: any): Promise<BusinessInfo[]> {
+  async collectTargets(targets: CollectionTarget[], filters: CollectionFilters): Promise<BusinessInfo[]> {
     if (!this.apiKey) {
-      logger.error('Google Maps APIキーが設定されていません');
+      throw new Error(ERROR_MESSAGES.API_KEY_MISSING);
+    }
+
+    const businesses: BusinessInfo[] = [];
+    const seenKeys = new Set<string>();
+
+    for (const target of targets) {
+      const types = this.resolvePlaceTypes(target.categories);
+      if (types.length === 0) {
+        this.logger.warn(`検索可能なカテゴリがないためスキップします: ${target.area}`);
+        continue;
+      }
+
+      this.logger.info(`収集中: ${target.area}（${target.categories.join('、')}）`);
+      const collected = await this.collectBusinesses({
+        location: target.area,
+        radius: target.radius,
+        types,
+        language: 'ja',
+        maxResults: target.limit
+      }, { filters });
+
+      // 複数エリアで重複した事業者は1件にまとめる
+      for (const business of collected) {
+        const key = business.url || `${business.businessName}@${business.location}`;
+        if (!seenKeys.has(key)) {
+          seenKeys.add(key);
+          businesses.push(business);
+        }
+      }
+    }
+
+    return businesses;
+  }
+
+  private resolvePlaceTypes(categories: string[]): string[] {
+    const types = new Set<string>();
+
+    for (const category of categories) {
+      const mapped = CATEGORY_PLACE_TYPES[category];
+      if (mapped) {
+        mapped.forEach(type => types.add(type));
+      } else if (/^[a-z_]+$/.test(category)) {
+        // Google Places のタイプがそのまま指定されている場合
+        types.add(category);
+      } else {
+        this.logger.warn(`未対応のカテゴリです: ${category}`);
+      }
+    }
+
+    return Array.from(types);
+  }
+
+  async collectBusinesses(params: SearchParams, config?: { filters?: Partial<CollectionFilters> }): Promise<BusinessInfo[]> {
+    if (!this.apiKey) {
+      this.logger.error('Google Maps APIキーが設定されていません');
       return [];
     }
 
@@ -86,8 +141,13 @@ export class GoogleMapsCollector {
           // 詳細情報を取得
           const details = await this.getPlaceDetails(place.place_id);
           
-          if (!details || !details.result.website) {
-            continue; // Webサイトがない場合はスキップ
+          if (!details) {
+            continue;
+          }
+
+          // Webサイトがない場合はスキップ（requireWebsite: false の場合はURL空欄で残す）
+          if (!details.result.website && config?.filters?.requireWebsite !== false) {
+            continue;
           }
 
           // チェーン店の除外（オプション）
@@ -96,7 +156,7 @@ export class GoogleMapsCollector {
           }
 
           const businessInfo: BusinessInfo = {
-            url: details.result.website,
+            url: details.result.website || '',
             businessName: details.result.name,
             industry: this.mapTypesToIndustry(details.result.types),
             location: this.extractWard(details.result.formatted_address)
@@ -114,11 +174,11 @@ export class GoogleMapsCollector {
         }
       }
 
-      logger.info(`${businesses.length}件の事業者情報を収集しました`);
+      this.logger.info(`${businesses.length}件の事業者情報を収集しました`);
       return businesses;
 
     } catch (error) {
-      logger.error('Google Maps API エラー:', error);
+      this.logger.error('Google Maps API エラー:', error);
       return businesses;
     }
   }
@@ -133,10 +193,10 @@ export class GoogleMapsCollector {
     };
 
     try {
-      const response = await axios.get(`${API_ENDPOINTS.googlePlaces}`, { params });
+      const response = await this.http.get(`${API_ENDPOINTS.googlePlaces}`, { params });
       return response.data.results || [];
     } catch (error) {
-      logger.error(`場所検索エラー (${type}):`, error);
+      this.logger.error(`場所検索エラー (${type}):`, error);
       return [];
     }
   }
@@ -150,10 +210,10 @@ export class GoogleMapsCollector {
     };
 
     try {
-      const response = await axios.get('https://maps.googleapis.com/maps/api/place/details/json', { params });
+      const response = await this.http.get('https://maps.googleapis.com/maps/api/place/details/json', { params });
       return response.data;
     } catch (error) {
-      logger.error(`詳細取得エラー (${placeId}):`, error);
+      this.logger.error(`詳細取得エラー (${placeId}):`, error);
       return null;
     }
   }
@@ -171,14 +231,14 @@ export class GoogleMapsCollector {
     };
 
     try {
-      const response = await axios.get('https://maps.googleapis.com/maps/api/geocode/json', { params });
+      const response = await this.http.get('https://maps.googleapis.com/maps/api/geocode/json', { params });
       const result = response.data.results[0];
       if (result) {
         const { lat, lng } = result.geometry.location;
         return `${lat},${lng}`;
       }
     } catch (error) {
-      logger.error(`ジオコーディングエラー (${location}):`, error);
+      this.logger.error(`ジオコーディングエラー (${location}):`, error);
     }
 
     // デフォルト（東京駅）
@@ -240,7 +300,12 @@ export class GoogleMapsCollector {
     return chainPatterns.some(pattern => name.includes(pattern));
   }
 
-  async exportToCSV(businesses: BusinessInfo[], outputPath: string): Promise<void> {
+  // レポートと同じく、Excel でそのまま開ける文字コード（reporting.csvEncoding）で書き出す
+  async exportToCSV(
+    businesses: BusinessInfo[],
+    outputPath: string,
+    encoding: OutputEncoding = DEFAULT_REPORTING_CONFIG.csvEncoding
+  ): Promise<void> {
     const csvData = businesses.map(business => ({
       URL: business.url,
       業種: business.industry,
@@ -249,8 +314,9 @@ export class GoogleMapsCollector {
     }));
 
     const csv = stringify(csvData, { header: true });
-    writeFileSync(outputPath, csv, 'utf-8');
+    mkdirSync(dirname(outputPath), { recursive: true });
+    writeFileSync(outputPath, encodeOutput(csv, encoding));
     
-    logger.info(`CSVファイルを出力しました: ${outputPath}`);
+    this.logger.info(`CSVファイルを出力しました: ${outputPath}`);
   }
 }
\ No newline at end of file
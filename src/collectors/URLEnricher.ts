@@ -1,24 +1,27 @@
-import { Page, chromium, Browser } from 'playwright';
-import { BusinessInfo } from '../types';
-import winston from 'winston';
-
-const logger = winston.createLogger({
-  level: 'info',
-  format: winston.format.simple(),
-  transports: [new winston.transports.Console()]
-});
-
-interface EnrichedBusinessInfo extends BusinessInfo {
-  technologies?: string[];
-  lastUpdated?: Date;
-  hasSNS?: boolean;
-  snsLinks?: string[];
-  employeeCount?: string;
-  establishedYear?: string;
-}
+import { Page, chromium, Browser, ElementHandle } from 'playwright';
+import { BusinessInfo, BusinessEnrichment } from '../types';
+import { Politeness } from '../runner/Politeness';
+import { ProxyRotator } from '../runner/ProxyRotator';
+import { Logger, createConsoleLogger } from '../logging/Logger';
+import { BROWSER_LAUNCH_OPTIONS } from '../config/constants';
+
+// 会社概要ページへのリンクをクリックできるまで待つ時間
+const ABOUT_LINK_CLICK_TIMEOUT_MS = 3000;
+
+// フレームワークなどがページに定義するグローバル変数（page.evaluate 内で参照する）
+type WindowGlobals = Record<string, unknown>;
+
+export interface EnrichedBusinessInfo extends BusinessInfo, BusinessEnrichment {}
 
 export class URLEnricher {
   private browser: Browser | null = null;
+  private proxy?: ProxyRotator;
+  private logger: Logger;
+
+  constructor(proxy?: ProxyRotator, logger: Logger = createConsoleLogger()) {
+    this.proxy = proxy;
+    this.logger = logger;
+  }
 
   async enrichBusinessInfo(businesses: BusinessInfo[]): Promise<EnrichedBusinessInfo[]> {
     await this.initBrowser();
@@ -26,14 +29,14 @@ export class URLEnricher {
 
     for (const business of businesses) {
       try {
-        logger.info(`情報収集中: ${business.url}`);
+        this.logger.info(`情報収集中: ${business.url}`);
         const enrichedInfo = await this.enrichSingleBusiness(business);
         enrichedBusinesses.push(enrichedInfo);
         
         // レート制限
         await new Promise(resolve => setTimeout(resolve, 2000));
       } catch (error) {
-        logger.error(`エンリッチメントエラー (${business.url}):`, error);
+        this.logger.error(`エンリッチメントエラー (${business.url}):`, error);
         enrichedBusinesses.push(business); // エラーの場合は元の情報をそのまま使用
       }
     }
@@ -45,8 +48,8 @@ export class URLEnricher {
   private async initBrowser(): Promise<void> {
     if (!this.browser) {
       this.browser = await chromium.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox']
+        ...BROWSER_LAUNCH_OPTIONS,
+        proxy: this.proxy?.launchOptions()
       });
     }
   }
@@ -60,7 +63,7 @@ export class URLEnricher {
 
   private async enrichSingleBusiness(business: BusinessInfo): Promise<EnrichedBusinessInfo> {
     const page = await this.browser!.newPage();
-    const enriched: EnrichedBusinessInfo = { ...business };
+    let enrichment: BusinessEnrichment = {};
 
     try {
       await page.goto(business.url, {
@@ -68,30 +71,41 @@ export class URLEnricher {
         timeout: 30000
       });
 
-      // 技術スタックの検出
-      enriched.technologies = await this.detectTechnologies(page);
-
-      // 最終更新日の推定
-      enriched.lastUpdated = await this.estimateLastUpdate(page);
-
-      // SNSプレゼンスの確認
-      const snsInfo = await this.checkSNSPresence(page);
-      enriched.hasSNS = snsInfo.hasSNS;
-      enriched.snsLinks = snsInfo.links;
-
-      // 従業員数の推定
-      enriched.employeeCount = await this.estimateEmployeeCount(page);
-
-      // 設立年の取得
-      enriched.establishedYear = await this.findEstablishedYear(page);
+      enrichment = await this.enrichPage(page);
 
     } catch (error) {
-      logger.warn(`ページ分析エラー (${business.url}):`, error);
+      this.logger.warn(`ページ分析エラー (${business.url}):`, error);
     } finally {
       await page.close();
     }
 
-    return enriched;
+    return { ...business, ...enrichment };
+  }
+
+  // 読み込み済みのページから企業情報を収集する
+  // 会社概要ページへ遷移する場合があるため、他の分析が終わった後に呼び出すこと
+  // politeness を渡すと、会社概要ページへの遷移もアクセス間隔・robots.txt の対象にする
+  async enrichPage(page: Page, politeness?: Politeness): Promise<BusinessEnrichment> {
+    const enrichment: BusinessEnrichment = {};
+
+    // 技術スタックの検出
+    enrichment.technologies = await this.detectTechnologies(page);
+
+    // 最終更新日の推定
+    enrichment.lastUpdated = await this.estimateLastUpdate(page);
+
+    // SNSプレゼンスの確認
+    const snsInfo = await this.checkSNSPresence(page);
+    enrichment.hasSNS = snsInfo.hasSNS;
+    enrichment.snsLinks = snsInfo.links;
+
+    // 従業員数の推定
+    enrichment.employeeCount = await this.estimateEmployeeCount(page, politeness);
+
+    // 設立年の取得
+    enrichment.establishedYear = await this.findEstablishedYear(page);
+
+    return enrichment;
   }
 
   private async detectTechnologies(page: Page): Promise<string[]> {
@@ -110,17 +124,17 @@ export class URLEnricher {
 
       // JavaScript フレームワークの検出
       const hasReact = await page.evaluate(() => {
-        return !!(window as any).React || !!(window as any).__REACT_DEVTOOLS_GLOBAL_HOOK__;
+        return !!(window as unknown as WindowGlobals).React || !!(window as unknown as WindowGlobals).__REACT_DEVTOOLS_GLOBAL_HOOK__;
       });
       if (hasReact) technologies.push('React');
 
       const hasVue = await page.evaluate(() => {
-        return !!(window as any).Vue || document.querySelector('[data-v-]') !== null;
+        return !!(window as unknown as WindowGlobals).Vue || document.querySelector('[data-v-]') !== null;
       });
       if (hasVue) technologies.push('Vue.js');
 
       const hasAngular = await page.evaluate(() => {
-        return !!(window as any).ng || document.querySelector('[ng-version]') !== null;
+        return !!(window as unknown as WindowGlobals).ng || document.querySelector('[ng-version]') !== null;
       });
       if (hasAngular) technologies.push('Angular');
 
@@ -133,12 +147,12 @@ export class URLEnricher {
 
       // Eコマースプラットフォームの検出
       const hasShopify = await page.evaluate(() => {
-        return !!(window as any).Shopify || document.querySelector('meta[content*="Shopify"]') !== null;
+        return !!(window as unknown as WindowGlobals).Shopify || document.querySelector('meta[content*="Shopify"]') !== null;
       });
       if (hasShopify) technologies.push('Shopify');
 
     } catch (error) {
-      logger.debug('技術スタック検出エラー:', error);
+      this.logger.debug('技術スタック検出エラー:', error);
     }
 
     return technologies;
@@ -156,8 +170,8 @@ export class URLEnricher {
         return new Date(lastModified);
       }
 
-      // フッターから年号を探す
-      const footerText = await page.textContent('footer') || '';
+      // フッターから年号を探す（要素がないページでは要素の出現を待たない）
+      const footerText = await page.$eval('footer', el => el.textContent).catch(() => null) || '';
       const currentYear = new Date().getFullYear();
       const yearRegex = new RegExp(`20[0-9]{2}|${currentYear}`);
       const yearMatch = footerText.match(yearRegex);
@@ -167,15 +181,15 @@ export class URLEnricher {
       }
 
       // ニュースや更新情報から推定
-      const newsText = await page.textContent('[class*="news"], [class*="update"], [id*="news"]') || '';
-      const dateMatch = newsText.match(/20\d{2}[年\/\-]\d{1,2}[月\/\-]\d{1,2}/);
+      const newsText = await page.$eval('[class*="news"], [class*="update"], [id*="news"]', el => el.textContent).catch(() => null) || '';
+      const dateMatch = newsText.match(/20\d{2}[年/-]\d{1,2}[月/-]\d{1,2}/);
       
       if (dateMatch) {
         return new Date(dateMatch[0].replace(/[年月]/g, '-').replace(/日/, ''));
       }
 
     } catch (error) {
-      logger.debug('最終更新日推定エラー:', error);
+      this.logger.debug('最終更新日推定エラー:', error);
     }
 
     return undefined;
@@ -210,15 +224,32 @@ export class URLEnricher {
     };
   }
 
-  private async estimateEmployeeCount(page: Page): Promise<string | undefined> {
+  // リンク先へのアクセスが許可されない（robots.txt・リクエスト数の上限）場合は遷移しない
+  private async mayFollow(link: ElementHandle, politeness?: Politeness): Promise<boolean> {
+    if (!politeness) {
+      return true;
+    }
+
+    try {
+      const href = await link.evaluate(el => (el as HTMLAnchorElement).href);
+      await politeness.acquire(href);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private async estimateEmployeeCount(page: Page, politeness?: Politeness): Promise<string | undefined> {
     try {
       // 会社概要ページを探す
       const aboutLinks = await page.$$('a[href*="about"], a[href*="company"], a:has-text("会社概要"), a:has-text("企業情報")');
       
-      if (aboutLinks.length > 0) {
-        // 最初のリンクをクリック
-        await aboutLinks[0].click();
-        await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+      if (aboutLinks.length > 0 && await this.mayFollow(aboutLinks[0], politeness)) {
+        // 最初のリンクをクリック（非表示などでクリックできない場合は今のページから探す）
+        const clicked = await aboutLinks[0].click({ timeout: ABOUT_LINK_CLICK_TIMEOUT_MS }).then(() => true, () => false);
+        if (clicked) {
+          await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+        }
       }
 
       // 従業員数を含むテキストを探す
@@ -238,7 +269,7 @@ export class URLEnricher {
       }
 
     } catch (error) {
-      logger.debug('従業員数推定エラー:', error);
+      this.logger.debug('従業員数推定エラー:', error);
     }
 
     return undefined;
@@ -264,13 +295,13 @@ export class URLEnricher {
       }
 
     } catch (error) {
-      logger.debug('設立年取得エラー:', error);
+      this.logger.debug('設立年取得エラー:', error);
     }
 
     return undefined;
   }
 
-  generateEnrichedReport(businesses: EnrichedBusinessInfo[]): any[] {
+  generateEnrichedReport(businesses: EnrichedBusinessInfo[]): Record<string, string | undefined>[] {
     return businesses.map(business => ({
       URL: business.url,
       事業者名: business.businessName,
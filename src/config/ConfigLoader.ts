@@ -0,0 +1,395 @@
+import { existsSync, readFileSync } from 'fs';
+import {
+  AnalyzerConfig,
+  AppConfig,
+  CollectionFilters,
+  CollectionTarget,
+  InputConfig,
+  PriorityThresholds,
+  ProxyConfig,
+  ReportingConfig,
+  ScoringWeights
+} from '../types';
+import { DEFAULT_APP_CONFIG, INPUT_FORMATS, OUTPUT_ENCODINGS, PROXY_PROTOCOLS } from './constants';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
+import { errorMessage } from '../logging/Logger';
+
+type FieldType = 'number' | 'boolean' | 'string' | 'string[]';
+
+interface FieldSpec {
+  [key: string]: FieldType | FieldSpec;
+}
+
+interface PriorityRule {
+  maxScore?: number;
+  minMonthlyLoss?: number;
+}
+
+// 検証を通過した設定ファイルの内容（指定されなかった項目は既定値で補う）
+interface RawConfig {
+  targets?: CollectionTarget[];
+  analysis?: Partial<AnalyzerConfig>;
+  scoring?: {
+    weights?: Partial<ScoringWeights>;
+    priorityRules?: { high?: PriorityRule; medium?: PriorityRule };
+  };
+  reporting?: Partial<ReportingConfig>;
+  filters?: Partial<CollectionFilters>;
+  input?: Partial<InputConfig>;
+  proxy?: Partial<ProxyConfig>;
+}
+
+const ANALYSIS_FIELDS: FieldSpec = {
+  performanceThreshold: 'number',
+  mobileThreshold: 'number',
+  seoThreshold: 'number',
+  conversionThreshold: 'number',
+  contentThreshold: 'number',
+  pageSpeedApiKey: 'string',
+  googleMapsApiKey: 'string',
+  screenshotTimeout: 'number',
+  recordHar: 'boolean',
+  recordTrace: 'boolean',
+  maxConcurrentAnalyses: 'number',
+  hostIntervalMs: 'number',
+  ipIntervalMs: 'number',
+  respectRobotsTxt: 'boolean',
+  userAgent: 'string',
+  requestBudget: 'number',
+  browserRecycleInterval: 'number',
+  retryAttempts: 'number',
+  retryDelay: 'number',
+  shutdownGracePeriodMs: 'number'
+};
+
+const PRIORITY_RULE_FIELDS: FieldSpec = {
+  maxScore: 'number',
+  minMonthlyLoss: 'number'
+};
+
+const REPORTING_FIELDS: FieldSpec = {
+  includeScreenshots: 'boolean',
+  maxHighPriorityDetails: 'number',
+  generateSummaryCSV: 'boolean',
+  csvEncoding: 'string'
+};
+
+const TARGET_FIELDS: FieldSpec = {
+  area: 'string',
+  categories: 'string[]',
+  radius: 'number',
+  limit: 'number'
+};
+
+const FILTER_FIELDS: FieldSpec = {
+  excludeChains: 'boolean',
+  minRating: 'number',
+  requireWebsite: 'boolean'
+};
+
+const INPUT_COLUMN_FIELDS: FieldSpec = {
+  url: 'string',
+  businessName: 'string',
+  industry: 'string',
+  location: 'string'
+};
+
+const INPUT_FIELDS: FieldSpec = {
+  format: 'string',
+  columns: INPUT_COLUMN_FIELDS,
+  sheet: 'string'
+};
+
+const PROXY_FIELDS: FieldSpec = {
+  servers: 'string[]',
+  username: 'string',
+  password: 'string',
+  bypass: 'string[]'
+};
+
+// 1以上の整数でなければならない項目
+const POSITIVE_INTEGER_FIELDS = [
+  'analysis.maxConcurrentAnalyses',
+  'analysis.browserRecycleInterval',
+  'analysis.retryAttempts',
+  'reporting.maxHighPriorityDetails'
+];
+
+// 指定できる値が決まっている項目
+const ENUM_FIELDS: Record<string, readonly string[]> = {
+  'reporting.csvEncoding': OUTPUT_ENCODINGS,
+  'input.format': ['auto', ...INPUT_FORMATS]
+};
+
+// カテゴリごとの数値（analyzerTimeouts・weights）は登録済みのアナライザーのカテゴリを指定できる
+function categoryFields(): FieldSpec {
+  return Object.fromEntries(analyzerRegistry.categories().map(category => [category, 'number']));
+}
+
+export class ConfigValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(filePath: string, errors: string[]) {
+    super(`設定ファイルが不正です (${filePath}):\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.errors = errors;
+  }
+}
+
+export class ConfigLoader {
+  load(filePath: string): AppConfig {
+    if (!existsSync(filePath)) {
+      throw new ConfigValidationError(filePath, ['ファイルが見つかりません']);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new ConfigValidationError(filePath, [`JSONとして読み込めません: ${errorMessage(error)}`]);
+    }
+
+    const errors = this.validate(raw);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(filePath, errors);
+    }
+
+    const config = this.mergeWithDefaults(raw as RawConfig);
+    const mergedErrors = this.validateMerged(config);
+    if (mergedErrors.length > 0) {
+      throw new ConfigValidationError(filePath, mergedErrors);
+    }
+
+    return config;
+  }
+
+  private validate(raw: unknown): string[] {
+    const errors: string[] = [];
+
+    if (!this.isPlainObject(raw)) {
+      return ['ルートはオブジェクトである必要があります'];
+    }
+
+    this.checkUnknownKeys(raw, ['targets', 'analysis', 'scoring', 'reporting', 'filters', 'input', 'proxy'], '', errors);
+
+    if (raw.targets !== undefined) {
+      if (!Array.isArray(raw.targets)) {
+        errors.push('targets は配列である必要があります');
+      } else {
+        raw.targets.forEach((target: unknown, index: number) => {
+          this.checkSection(target, TARGET_FIELDS, `targets[${index}]`, errors, true);
+        });
+      }
+    }
+
+    this.checkSection(raw.analysis, { ...ANALYSIS_FIELDS, analyzerTimeouts: categoryFields() }, 'analysis', errors);
+    this.checkSection(raw.reporting, REPORTING_FIELDS, 'reporting', errors);
+    this.checkSection(raw.filters, FILTER_FIELDS, 'filters', errors);
+    this.checkSection(raw.input, INPUT_FIELDS, 'input', errors);
+    this.checkSection(raw.proxy, PROXY_FIELDS, 'proxy', errors);
+
+    if (raw.scoring !== undefined) {
+      if (!this.isPlainObject(raw.scoring)) {
+        errors.push('scoring はオブジェクトである必要があります');
+      } else {
+        this.checkUnknownKeys(raw.scoring, ['weights', 'priorityRules'], 'scoring', errors);
+        this.checkSection(raw.scoring.weights, categoryFields(), 'scoring.weights', errors);
+
+        const priorityRules = raw.scoring.priorityRules;
+        if (priorityRules !== undefined) {
+          if (!this.isPlainObject(priorityRules)) {
+            errors.push('scoring.priorityRules はオブジェクトである必要があります');
+          } else {
+            this.checkUnknownKeys(priorityRules, ['high', 'medium'], 'scoring.priorityRules', errors);
+            this.checkSection(priorityRules.high, PRIORITY_RULE_FIELDS, 'scoring.priorityRules.high', errors);
+            this.checkSection(priorityRules.medium, PRIORITY_RULE_FIELDS, 'scoring.priorityRules.medium', errors);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private validateMerged(config: AppConfig): string[] {
+    const errors: string[] = [];
+
+    if (Object.values(config.scoring.weights).every(weight => weight === 0)) {
+      errors.push('scoring.weights のすべてが0です。少なくとも1つは正の値を指定してください');
+    }
+
+    const { High, Medium } = config.scoring.priorityThresholds;
+    if (High.scoreMax > Medium.scoreMax) {
+      errors.push(`scoring.priorityRules.high.maxScore（${High.scoreMax}）は medium.maxScore（${Medium.scoreMax}）以下である必要があります`);
+    }
+    if (High.monthlyLossMin < Medium.monthlyLossMin) {
+      errors.push(`scoring.priorityRules.high.minMonthlyLoss（${High.monthlyLossMin}）は medium.minMonthlyLoss（${Medium.monthlyLossMin}）以上である必要があります`);
+    }
+
+    config.proxy.servers.forEach((server, index) => {
+      if (!this.isProxyUrl(server)) {
+        errors.push(`proxy.servers[${index}] は ${PROXY_PROTOCOLS.map(protocol => `${protocol}//`).join(', ')} で始まるURLである必要があります（指定値: ${JSON.stringify(server)}）`);
+        return;
+      }
+
+      // Chromium は SOCKS プロキシの認証に対応していないため、ブラウザが認証なしで接続して失敗する
+      const credentials = this.socksCredentialsSource(server, config.proxy);
+      if (credentials) {
+        errors.push(`proxy.servers[${index}] は SOCKS プロキシのため認証情報（${credentials}）を使用できません。ブラウザ（Chromium）は認証付きの SOCKS プロキシに対応していません`);
+      }
+    });
+
+    return errors;
+  }
+
+  private isProxyUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return PROXY_PROTOCOLS.includes(url.protocol) && url.hostname !== '';
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // SOCKS プロキシに適用される認証情報の指定元（認証情報がなければ null）
+  private socksCredentialsSource(server: string, proxy: ProxyConfig): string | null {
+    const url = new URL(server);
+    if (!url.protocol.startsWith('socks')) {
+      return null;
+    }
+
+    if (url.username || url.password) {
+      return 'URLのユーザー名・パスワード';
+    }
+    if (proxy.username || proxy.password) {
+      return 'proxy.username / proxy.password';
+    }
+    if (process.env.PROXY_USERNAME || process.env.PROXY_PASSWORD) {
+      return '環境変数 PROXY_USERNAME / PROXY_PASSWORD';
+    }
+    return null;
+  }
+
+  private checkSection(
+    value: unknown,
+    fields: FieldSpec,
+    path: string,
+    errors: string[],
+    requireAll = false
+  ): void {
+    if (value === undefined) {
+      return;
+    }
+
+    if (!this.isPlainObject(value)) {
+      errors.push(`${path} はオブジェクトである必要があります`);
+      return;
+    }
+
+    this.checkUnknownKeys(value, Object.keys(fields), path, errors);
+
+    for (const [key, type] of Object.entries(fields)) {
+      const fieldPath = `${path}.${key}`;
+      const fieldValue = value[key];
+
+      if (fieldValue === undefined) {
+        if (requireAll) {
+          errors.push(`${fieldPath} が指定されていません`);
+        }
+        continue;
+      }
+
+      // ネストしたセクション
+      if (typeof type === 'object') {
+        this.checkSection(fieldValue, type, fieldPath, errors, requireAll);
+        continue;
+      }
+
+      if (!this.matchesType(fieldValue, type)) {
+        errors.push(`${fieldPath} は ${type} 型である必要があります（指定値: ${JSON.stringify(fieldValue)}）`);
+        continue;
+      }
+
+      const allowed = ENUM_FIELDS[fieldPath];
+      if (allowed && !allowed.includes(String(fieldValue))) {
+        errors.push(`${fieldPath} は ${allowed.join(', ')} のいずれかである必要があります（指定値: ${JSON.stringify(fieldValue)}）`);
+        continue;
+      }
+
+      if (typeof fieldValue === 'number') {
+        if (fieldValue < 0) {
+          errors.push(`${fieldPath} は0以上である必要があります（指定値: ${fieldValue}）`);
+        } else if (POSITIVE_INTEGER_FIELDS.includes(fieldPath) && (!Number.isInteger(fieldValue) || fieldValue < 1)) {
+          errors.push(`${fieldPath} は1以上の整数である必要があります（指定値: ${fieldValue}）`);
+        }
+      }
+    }
+  }
+
+  private checkUnknownKeys(value: Record<string, unknown>, knownKeys: string[], path: string, errors: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!knownKeys.includes(key)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        errors.push(`不明なキーです: ${fieldPath}（使用可能: ${knownKeys.join(', ')}）`);
+      }
+    }
+  }
+
+  private matchesType(value: unknown, type: FieldType): boolean {
+    switch (type) {
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'string':
+        return typeof value === 'string';
+      case 'string[]':
+        return Array.isArray(value) && value.every(item => typeof item === 'string');
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private mergeWithDefaults(raw: RawConfig): AppConfig {
+    const defaults = DEFAULT_APP_CONFIG;
+    const priorityRules = raw.scoring?.priorityRules || {};
+
+    const priorityThresholds: PriorityThresholds = {
+      High: {
+        scoreMax: priorityRules.high?.maxScore ?? defaults.scoring.priorityThresholds.High.scoreMax,
+        monthlyLossMin: priorityRules.high?.minMonthlyLoss ?? defaults.scoring.priorityThresholds.High.monthlyLossMin
+      },
+      Medium: {
+        scoreMax: priorityRules.medium?.maxScore ?? defaults.scoring.priorityThresholds.Medium.scoreMax,
+        monthlyLossMin: priorityRules.medium?.minMonthlyLoss ?? defaults.scoring.priorityThresholds.Medium.monthlyLossMin
+      },
+      Low: { ...defaults.scoring.priorityThresholds.Low }
+    };
+
+    return {
+      targets: (raw.targets || defaults.targets).map(target => ({
+        ...target,
+        categories: [...target.categories]
+      })),
+      analysis: {
+        ...defaults.analysis,
+        ...raw.analysis,
+        analyzerTimeouts: { ...defaults.analysis.analyzerTimeouts, ...raw.analysis?.analyzerTimeouts }
+      },
+      scoring: {
+        weights: { ...defaults.scoring.weights, ...raw.scoring?.weights },
+        priorityThresholds
+      },
+      reporting: { ...defaults.reporting, ...raw.reporting },
+      filters: { ...defaults.filters, ...raw.filters },
+      input: {
+        ...defaults.input,
+        ...raw.input,
+        columns: { ...defaults.input.columns, ...raw.input?.columns }
+      },
+      proxy: { ...defaults.proxy, ...raw.proxy }
+    };
+  }
+}
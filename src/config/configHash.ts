@@ -0,0 +1,30 @@
+import { createHash } from 'crypto';
+import { AppConfig } from '../types';
+
+// スコアに影響する設定のハッシュ（APIキーは結果に影響しないため除外）
+export function hashConfig(config: AppConfig): string {
+  const { pageSpeedApiKey: _pageSpeedApiKey, googleMapsApiKey: _googleMapsApiKey, ...analysis } = config.analysis;
+  const hashed = {
+    analysis,
+    scoring: config.scoring
+  };
+
+  return createHash('sha256')
+    .update(stableStringify(hashed))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+// キーの順序に依存しないJSON文字列化
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -1,4 +1,23 @@
-import { IndustryConfig, ScoringWeights, AnalyzerConfig } from '../types';
+import { LaunchOptions } from 'playwright';
+import {
+  IndustryConfig,
+  ScoringWeights,
+  AnalyzerConfig,
+  PriorityThresholds,
+  ReportingConfig,
+  CollectionFilters,
+  AppConfig,
+  BuiltInAnalysisCategory,
+  FailureReason,
+  ProspectChange,
+  InputColumnField,
+  LogLevel,
+  OutputEncoding,
+  InputEncoding,
+  InputConfig,
+  InputFormat,
+  ProxyConfig
+} from '../types';
 
 export const INDUSTRY_CONFIGS: Record<string, IndustryConfig> = {
   restaurant: {
@@ -90,9 +109,114 @@ export const DEFAULT_ANALYZER_CONFIG: AnalyzerConfig = {
   conversionThreshold: 50,
   contentThreshold: 40,
   screenshotTimeout: 30000, // 30 seconds
+  recordHar: false,
+  recordTrace: false,
+  analyzerTimeouts: {
+    performance: 120000, // PageSpeed APIのリトライを含む
+    mobile: 30000,
+    seo: 30000,
+    conversion: 30000,
+    content: 30000
+  },
   maxConcurrentAnalyses: 3,
+  hostIntervalMs: 2000, // 同一ホストへのアクセス間隔
+  ipIntervalMs: 1000, // 同一IPアドレスへのアクセス間隔
+  respectRobotsTxt: false,
+  requestBudget: 0, // 無制限
+  browserRecycleInterval: 10, // 10ページごとにブラウザを再起動
   retryAttempts: 3,
-  retryDelay: 2000 // 2 seconds
+  retryDelay: 2000, // 2 seconds
+  shutdownGracePeriodMs: 20000 // 停止時に実行中の分析を待つ時間
+};
+
+// analyzerTimeouts にもアナライザーにも制限時間の指定がない場合
+export const DEFAULT_ANALYZER_TIMEOUT_MS = 30000;
+
+// 企業情報の取得（会社概要ページへの遷移を含む）の制限時間。超えた場合は企業情報なしで結果を返す
+export const ENRICHMENT_TIMEOUT_MS = 20000;
+
+// 分析・企業情報の収集で起動するブラウザ（プロキシは起動ごとに指定する）
+// 停止のシグナルは CLI が処理する。Playwright に任せると途中結果を出力する前にプロセスが終了し、分析中のブラウザも閉じられる
+export const BROWSER_LAUNCH_OPTIONS: LaunchOptions = {
+  headless: true,
+  args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  handleSIGINT: false,
+  handleSIGTERM: false,
+  handleSIGHUP: false
+};
+
+export const CATEGORY_LABELS: Record<BuiltInAnalysisCategory, string> = {
+  performance: 'パフォーマンス',
+  mobile: 'モバイル対応',
+  seo: 'SEO',
+  conversion: 'コンバージョン',
+  content: 'コンテンツ'
+};
+
+export const FAILURE_REASON_LABELS: Record<FailureReason, string> = {
+  DNS: 'ドメイン解決不可（DNS）',
+  TLS: 'SSL証明書エラー',
+  Timeout: 'タイムアウト',
+  ConnectionRefused: '接続不可',
+  HTTP4xx: 'ページが存在しない（HTTP 4xx）',
+  HTTP5xx: 'サーバーエラー（HTTP 5xx）',
+  BotBlock: 'アクセス制限（ボット対策）',
+  ParkedDomain: 'パーキングドメイン',
+  RobotsDisallowed: 'robots.txt でアクセス禁止',
+  Unknown: '不明なエラー'
+};
+
+// 失敗理由ごとの営業上の意味合い
+export const FAILURE_SALES_NOTES: Record<FailureReason, string> = {
+  DNS: 'ドメイン失効の可能性。新規サイト制作の有力見込み',
+  TLS: 'SSL未対応・証明書切れ。信頼性低下を訴求',
+  Timeout: '表示が極端に遅い可能性。高速化を提案',
+  ConnectionRefused: 'サーバー停止中の可能性。サイト再構築を提案',
+  HTTP4xx: 'トップページが存在しない。新規サイト制作の有力見込み',
+  HTTP5xx: 'サーバー障害中。運用保守を含めた提案が有効',
+  BotBlock: '自動分析不可。手動での確認が必要',
+  ParkedDomain: 'サイト未開設。新規サイト制作の有力見込み',
+  RobotsDisallowed: '自動分析を拒否する設定。手動での確認が必要',
+  Unknown: '手動での確認が必要'
+};
+
+export const PROSPECT_CHANGE_LABELS: Record<ProspectChange, string> = {
+  Improved: '改善',
+  Worsened: '悪化',
+  Unchanged: '変化なし',
+  WentDown: 'アクセス不可に',
+  StillDown: '引き続きアクセス不可',
+  Recovered: 'アクセス回復',
+  Added: '新規',
+  Removed: '比較先で未分析'
+};
+
+// 再分析時に「改善」「悪化」とみなす総合スコアの変化幅
+export const DIFF_SCORE_THRESHOLD = 5;
+
+export const OUTPUT_ENCODINGS: OutputEncoding[] = ['utf-8-bom', 'utf-8', 'cp932'];
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export const INPUT_ENCODING_LABELS: Record<InputEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8（BOM付き）',
+  'cp932': 'Shift_JIS（CP932）'
+};
+
+// 入力ファイルの列名（先に見つかった列を使用）
+export const INPUT_COLUMN_ALIASES: Record<InputColumnField, string[]> = {
+  url: ['URL', 'url'],
+  businessName: ['事業者名', 'businessName'],
+  industry: ['業種', 'industry'],
+  location: ['地域', 'location']
+};
+
+export const INPUT_COLUMN_LABELS: Record<InputColumnField, string> = {
+  url: 'URL',
+  businessName: '事業者名',
+  industry: '業種',
+  location: '地域'
 };
 
 export const PAGEYOU_PLANS = {
@@ -133,7 +257,7 @@ export const PAGEYOU_PLANS = {
   }
 };
 
-export const PRIORITY_THRESHOLDS = {
+export const PRIORITY_THRESHOLDS: PriorityThresholds = {
   High: {
     scoreMax: 40,
     monthlyLossMin: 100000 // 10万円以上の機会損失
@@ -148,6 +272,68 @@ export const PRIORITY_THRESHOLDS = {
   }
 };
 
+export const DEFAULT_REPORTING_CONFIG: ReportingConfig = {
+  includeScreenshots: true,
+  maxHighPriorityDetails: 10,
+  generateSummaryCSV: false,
+  csvEncoding: 'utf-8-bom'
+};
+
+export const DEFAULT_COLLECTION_FILTERS: CollectionFilters = {
+  excludeChains: false,
+  minRating: 0,
+  requireWebsite: true
+};
+
+export const DEFAULT_INPUT_CONFIG: InputConfig = {
+  format: 'auto',
+  columns: {}
+};
+
+export const DEFAULT_PROXY_CONFIG: ProxyConfig = {
+  servers: [],
+  bypass: []
+};
+
+export const PROXY_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'];
+
+export const INPUT_FORMATS: InputFormat[] = ['csv', 'tsv', 'json', 'jsonl', 'xlsx'];
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  targets: [],
+  analysis: DEFAULT_ANALYZER_CONFIG,
+  scoring: {
+    weights: DEFAULT_SCORING_WEIGHTS,
+    priorityThresholds: PRIORITY_THRESHOLDS
+  },
+  reporting: DEFAULT_REPORTING_CONFIG,
+  filters: DEFAULT_COLLECTION_FILTERS,
+  input: DEFAULT_INPUT_CONFIG,
+  proxy: DEFAULT_PROXY_CONFIG
+};
+
+export const DEFAULT_CONFIG_PATH = 'config/collection-config.json';
+
+// 設定ファイルの日本語カテゴリ → Google Places のタイプ
+export const CATEGORY_PLACE_TYPES: Record<string, string[]> = {
+  'レストラン': ['restaurant'],
+  'カフェ': ['cafe'],
+  '居酒屋': ['bar', 'restaurant'],
+  'ベーカリー': ['bakery'],
+  '美容室': ['hair_care', 'beauty_salon'],
+  'エステサロン': ['beauty_salon', 'spa'],
+  'ネイルサロン': ['beauty_salon'],
+  'クリニック': ['doctor'],
+  '病院': ['hospital'],
+  '歯科医院': ['dentist'],
+  '法律事務所': ['lawyer'],
+  '会計事務所': ['accounting'],
+  '小売店': ['store'],
+  '衣料品店': ['clothing_store'],
+  'ジム': ['gym'],
+  '学習塾': ['school']
+};
+
 export const API_ENDPOINTS = {
   pageSpeed: 'https://www.googleapis.com/pagespeedonline/v5/runPagespeed',
   googlePlaces: 'https://maps.googleapis.com/maps/api/place/nearbysearch/json'
@@ -171,5 +357,13 @@ export const FILE_PATHS = {
   CSV_REPORT: 'output/reports/analysis_report.csv',
   MARKDOWN_REPORT: 'output/reports/analysis_report.md',
   SCREENSHOTS_DIR: 'output/screenshots/',
+  SNAPSHOTS_DIR: 'output/snapshots/',
+  FAILURES_CSV: 'output/reports/failed_urls.csv',
+  RUNS_DIR: 'output/runs/',
+  HISTORY_DB: 'output/history.sqlite',
+  DIFF_CSV_REPORT: 'output/reports/diff_report.csv',
+  DIFF_MARKDOWN_REPORT: 'output/reports/diff_report.md',
+  // 手作業で作る input/urls.csv を上書きしないよう、収集日ごとの別ファイルに出力する
+  COLLECTED_CSV_PREFIX: 'input/collected_',
   ERROR_LOG: 'output/error.log'
 };
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import { AnalysisResult, CategoryRecord } from '../types';
+import { FILE_PATHS } from '../config/constants';
+import { canonicalizeUrl } from '../input/canonicalUrl';
+
+export interface HistoryEntry {
+  runId: string;
+  configHash: string;
+  analyzedAt: Date;
+  url: string;
+  totalScore: number;
+  // その実行で分析したカテゴリのスコア（カテゴリの追加前・削除後の実行には含まれない）
+  scores: Partial<CategoryRecord<number | null>>;
+  priority: AnalysisResult['priority'];
+  result: AnalysisResult;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS analyses (
+    normalized_url TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    config_hash TEXT NOT NULL,
+    analyzed_at TEXT NOT NULL,
+    url TEXT NOT NULL,
+    total_score INTEGER NOT NULL,
+    priority TEXT NOT NULL,
+    result_json TEXT NOT NULL,
+    PRIMARY KEY (normalized_url, run_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_analyses_analyzed_at ON analyses (normalized_url, analyzed_at);
+  -- カテゴリ別のスコア（カテゴリが増減しても列を変えずに済むよう、1カテゴリ1行で持つ。失敗したカテゴリは NULL）
+  CREATE TABLE IF NOT EXISTS category_scores (
+    normalized_url TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    score INTEGER,
+    PRIMARY KEY (normalized_url, run_id, category)
+  );
+`;
+
+export class HistoryStore {
+  private db: Database;
+  private filePath: string;
+
+  private constructor(db: Database, filePath: string) {
+    this.db = db;
+    this.filePath = filePath;
+  }
+
+  static async open(filePath: string = FILE_PATHS.HISTORY_DB): Promise<HistoryStore> {
+    const SQL = await initSqlJs();
+    const db = existsSync(filePath) ?
+      new SQL.Database(readFileSync(filePath)) :
+      new SQL.Database();
+    db.run(SCHEMA);
+    return new HistoryStore(db, filePath);
+  }
+
+  // 同じ実行の結果を再記録した場合（再開時など）は上書き
+  record(runId: string, configHash: string, results: AnalysisResult[]): void {
+    const statement = this.db.prepare(`
+      INSERT OR REPLACE INTO analyses (
+        normalized_url, run_id, config_hash, analyzed_at, url, total_score, priority, result_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const clearScores = this.db.prepare('DELETE FROM category_scores WHERE normalized_url = ? AND run_id = ?');
+    const scoreStatement = this.db.prepare(`
+      INSERT INTO category_scores (normalized_url, run_id, category, score) VALUES (?, ?, ?, ?)
+    `);
+
+    try {
+      this.db.run('BEGIN');
+      for (const result of results) {
+        const normalizedUrl = canonicalizeUrl(result.url);
+        const { total, ...scores } = result.scores;
+        statement.run([
+          normalizedUrl,
+          runId,
+          configHash,
+          new Date(result.analyzedAt).toISOString(),
+          result.url,
+          total,
+          result.priority,
+          JSON.stringify(result)
+        ]);
+
+        clearScores.run([normalizedUrl, runId]);
+        for (const [category, score] of Object.entries(scores)) {
+          scoreStatement.run([normalizedUrl, runId, category, score ?? null]);
+        }
+      }
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    } finally {
+      statement.free();
+      clearScores.free();
+      scoreStatement.free();
+    }
+
+    this.save();
+  }
+
+  // 古い順に返す
+  getHistory(url: string): HistoryEntry[] {
+    const normalizedUrl = canonicalizeUrl(url);
+    const statement = this.db.prepare(`
+      SELECT run_id, config_hash, analyzed_at, total_score, result_json
+      FROM analyses
+      WHERE normalized_url = ?
+      ORDER BY analyzed_at ASC
+    `);
+    const scoreStatement = this.db.prepare(`
+      SELECT run_id, category, score FROM category_scores WHERE normalized_url = ?
+    `);
+
+    const entries: HistoryEntry[] = [];
+    try {
+      // 実行IDごとのカテゴリ別スコア（その実行で分析したカテゴリのみ）
+      const scoresByRun = new Map<string, Record<string, number | null>>();
+      scoreStatement.bind([normalizedUrl]);
+      while (scoreStatement.step()) {
+        const row = scoreStatement.getAsObject();
+        const runId = String(row.run_id);
+        const scores = scoresByRun.get(runId) || {};
+        scores[String(row.category)] = row.score === null ? null : Number(row.score);
+        scoresByRun.set(runId, scores);
+      }
+
+      statement.bind([normalizedUrl]);
+      while (statement.step()) {
+        const row = statement.getAsObject();
+        const result: AnalysisResult = JSON.parse(String(row.result_json));
+        const runId = String(row.run_id);
+
+        entries.push({
+          runId,
+          configHash: String(row.config_hash),
+          analyzedAt: new Date(String(row.analyzed_at)),
+          url: result.url,
+          totalScore: Number(row.total_score),
+          scores: (scoresByRun.get(runId) || {}) as HistoryEntry['scores'],
+          priority: result.priority,
+          result: { ...result, analyzedAt: new Date(result.analyzedAt) }
+        });
+      }
+    } finally {
+      statement.free();
+      scoreStatement.free();
+    }
+
+    return entries;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+
+    // 書き込み途中で中断してもDBファイルが壊れないよう一時ファイル経由で置き換える
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, Buffer.from(this.db.export()));
+    renameSync(tempPath, this.filePath);
+  }
+}
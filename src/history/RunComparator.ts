@@ -0,0 +1,107 @@
+import { AnalysisResult, FailedAnalysis, Issue, ProspectChange, ProspectDiff, RunDiff } from '../types';
+import { DIFF_SCORE_THRESHOLD } from '../config/constants';
+import { canonicalizeUrl } from '../input/canonicalUrl';
+
+export interface RunSnapshot {
+  runId: string;
+  startedAt: string;
+  results: AnalysisResult[];
+  failures: FailedAnalysis[];
+}
+
+interface ProspectState {
+  result?: AnalysisResult;
+  failure?: FailedAnalysis;
+}
+
+export class RunComparator {
+  private threshold: number;
+
+  constructor(threshold: number = DIFF_SCORE_THRESHOLD) {
+    this.threshold = threshold;
+  }
+
+  compare(base: RunSnapshot, target: RunSnapshot): RunDiff {
+    const baseStates = this.indexByUrl(base);
+    const targetStates = this.indexByUrl(target);
+
+    // 比較元の順序を保ち、比較先にのみ存在するURLを後ろに並べる
+    const keys = [...baseStates.keys()];
+    targetStates.forEach((_state, key) => {
+      if (!baseStates.has(key)) keys.push(key);
+    });
+
+    return {
+      baseRunId: base.runId,
+      baseStartedAt: base.startedAt,
+      targetRunId: target.runId,
+      targetStartedAt: target.startedAt,
+      prospects: keys.map(key => this.compareProspect(baseStates.get(key), targetStates.get(key)))
+    };
+  }
+
+  private compareProspect(before: ProspectState | undefined, after: ProspectState | undefined): ProspectDiff {
+    const latest = after?.result || after?.failure || before?.result || before?.failure;
+    const diff: ProspectDiff = {
+      url: latest!.url,
+      businessInfo: latest!.businessInfo,
+      change: 'Unchanged',
+      before: before?.result,
+      after: after?.result,
+      beforeFailure: before?.failure,
+      afterFailure: after?.failure,
+      scoreDelta: null,
+      fixedIssues: [],
+      newIssues: []
+    };
+
+    if (before?.result && after?.result) {
+      diff.scoreDelta = after.result.scores.total - before.result.scores.total;
+      diff.change = this.classifyScoreChange(diff.scoreDelta);
+      diff.fixedIssues = this.subtractIssues(before.result.issues, after.result.issues);
+      diff.newIssues = this.subtractIssues(after.result.issues, before.result.issues);
+    } else {
+      diff.change = this.classifyAvailabilityChange(before, after);
+    }
+
+    return diff;
+  }
+
+  private classifyScoreChange(delta: number): ProspectChange {
+    if (delta >= this.threshold) return 'Improved';
+    if (delta <= -this.threshold) return 'Worsened';
+    return 'Unchanged';
+  }
+
+  private classifyAvailabilityChange(before?: ProspectState, after?: ProspectState): ProspectChange {
+    if (!before) return 'Added';
+    if (!after) return 'Removed';
+    if (before.result && after.failure) return 'WentDown';
+    if (before.failure && after.result) return 'Recovered';
+    return 'StillDown';
+  }
+
+  // a にあって b にない課題（件数などの数値の違いは同じ課題とみなす）
+  private subtractIssues(a: Issue[], b: Issue[]): Issue[] {
+    const keys = new Set(b.map(issue => this.issueKey(issue)));
+    return a.filter(issue => !keys.has(this.issueKey(issue)));
+  }
+
+  private issueKey(issue: Issue): string {
+    return `${issue.category}:${issue.description.replace(/（[^）]*）|\d+/g, '').trim()}`;
+  }
+
+  private indexByUrl(snapshot: RunSnapshot): Map<string, ProspectState> {
+    const states = new Map<string, ProspectState>();
+    snapshot.results.forEach(result => {
+      states.set(canonicalizeUrl(result.url), { result });
+    });
+    snapshot.failures.forEach(failure => {
+      const key = canonicalizeUrl(failure.url);
+      if (!states.has(key)) {
+        states.set(key, { failure });
+      }
+    });
+    return states;
+  }
+}
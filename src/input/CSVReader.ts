@@ -0,0 +1,36 @@
+import { parse } from 'csv-parse/sync';
+import { readFileSync } from 'fs';
+import { decodeInput } from './decodeInput';
+import { InputReader, InputTable } from './InputReader';
+
+export class CSVReader implements InputReader {
+  private delimiter: string;
+
+  constructor(delimiter = ',') {
+    this.delimiter = delimiter;
+  }
+
+  async read(filePath: string): Promise<InputTable> {
+    const { text: fileContent, encoding } = decodeInput(readFileSync(filePath));
+    let columns: string[] = [];
+
+    const parsed: { record: Record<string, string>; info: { lines: number } }[] = parse(fileContent, {
+      delimiter: this.delimiter,
+      columns: (header: string[]) => {
+        columns = header.map(column => column.trim());
+        return columns;
+      },
+      skip_empty_lines: true,
+      trim: true,
+      info: true
+    });
+
+    return {
+      encoding,
+      columns,
+      rows: parsed.map(({ record, info }) => ({ line: info.lines, record })),
+      headerLine: 1,
+      lineUnit: 'line'
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { extname } from 'path';
+import { InputConfig, InputEncoding, InputFormat } from '../types';
+import { CSVReader } from './CSVReader';
+import { JSONReader } from './JSONReader';
+import { XLSXReader } from './XLSXReader';
+
+export interface InputRow {
+  // CSV・TSV・XLSX・JSONLは行番号、JSON配列は要素の番号（1始まり）
+  line: number;
+  record: Record<string, string>;
+}
+
+export interface InputTable {
+  // テキスト形式の場合に判別した文字コード
+  encoding?: InputEncoding;
+  columns: string[];
+  rows: InputRow[];
+  // 見出しに関する問題を報告する行（JSON・JSONLは見出し行がないため 0）
+  headerLine: number;
+  lineUnit: 'line' | 'record';
+}
+
+export interface InputReader {
+  read(filePath: string): Promise<InputTable>;
+}
+
+const EXTENSION_FORMATS: Record<string, InputFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.txt': 'tsv',
+  '.json': 'json',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+  '.xlsx': 'xlsx'
+};
+
+export function resolveInputFormat(filePath: string, format: InputConfig['format']): InputFormat {
+  if (format !== 'auto') {
+    return format;
+  }
+
+  // 拡張子で判別できなければ従来どおりCSVとして読む
+  return EXTENSION_FORMATS[extname(filePath).toLowerCase()] || 'csv';
+}
+
+export function createInputReader(format: InputFormat, config: InputConfig): InputReader {
+  switch (format) {
+    case 'csv':
+      return new CSVReader(',');
+    case 'tsv':
+      return new CSVReader('\t');
+    case 'json':
+      return new JSONReader(false);
+    case 'jsonl':
+      return new JSONReader(true);
+    case 'xlsx':
+      return new XLSXReader(config.sheet);
+  }
+}
@@ -0,0 +1,220 @@
+import { BusinessInfo, InputColumnField, InputConfig, InputEncoding, InputFormat } from '../types';
+import {
+  INDUSTRY_CONFIGS,
+  INPUT_COLUMN_ALIASES,
+  INPUT_COLUMN_LABELS,
+  DEFAULT_INPUT_CONFIG
+} from '../config/constants';
+import { InputTable, createInputReader, resolveInputFormat } from './InputReader';
+import { canonicalizeUrl, withScheme } from './canonicalUrl';
+
+export type InputField = InputColumnField;
+
+export interface InputIssue {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ValidationReport {
+  format?: InputFormat;
+  encoding?: InputEncoding;
+  lineUnit: InputTable['lineUnit'];
+  businesses: BusinessInfo[];
+  issues: InputIssue[];
+  totalRows: number;
+}
+
+// 問題の位置の表示（0はファイル全体）
+export function formatInputLocation(line: number, lineUnit: InputTable['lineUnit']): string {
+  if (line === 0) return 'ファイル全体';
+  return lineUnit === 'line' ? `${line}行目` : `${line}件目`;
+}
+
+// 業種名の候補として提示する最大の編集距離
+const MAX_SUGGESTION_DISTANCE = 3;
+
+export class InputValidator {
+  private config: InputConfig;
+  private knownIndustries: string[];
+
+  constructor(
+    config: InputConfig = DEFAULT_INPUT_CONFIG,
+    knownIndustries: string[] = Object.keys(INDUSTRY_CONFIGS).filter(industry => industry !== 'default')
+  ) {
+    this.config = config;
+    this.knownIndustries = knownIndustries;
+  }
+
+  async validateFile(filePath: string): Promise<ValidationReport> {
+    const format = resolveInputFormat(filePath, this.config.format);
+    const table = await createInputReader(format, this.config).read(filePath);
+    return { ...this.validate(table), format };
+  }
+
+  validate(table: InputTable): ValidationReport {
+    const issues: InputIssue[] = [];
+    const businesses: BusinessInfo[] = [];
+    const columns = this.resolveColumns(table, issues);
+    const report = (): ValidationReport => ({
+      encoding: table.encoding,
+      lineUnit: table.lineUnit,
+      businesses,
+      issues,
+      totalRows: table.rows.length
+    });
+
+    if (!columns.url) {
+      return report();
+    }
+
+    // ドメインごとに最初に出現した行番号
+    const seenDomains = new Map<string, number>();
+    // 同じサイト（表記ゆれを除いたURL）ごとに最初に出現した行番号と businesses 内の位置
+    const seenSites = new Map<string, { line: number; index: number }>();
+
+    for (const { line, record } of table.rows) {
+      const rawUrl = (record[columns.url] || '').trim();
+
+      // URL空欄の行（Webサイトなしの収集結果など）は分析対象外
+      if (!rawUrl) {
+        issues.push({ line, severity: 'warning', message: 'URLが空欄のためスキップします' });
+        continue;
+      }
+
+      const url = withScheme(rawUrl);
+      const domain = this.extractDomain(url);
+      if (!domain) {
+        issues.push({ line, severity: 'error', message: `URLの形式が不正です: ${rawUrl}` });
+        continue;
+      }
+
+      const businessName = columns.businessName ? record[columns.businessName] || undefined : undefined;
+
+      // 表記ゆれだけが異なる行は1件にまとめ、事業者名は別名として残す
+      const siteKey = canonicalizeUrl(url);
+      const site = seenSites.get(siteKey);
+      if (site) {
+        issues.push({ line, severity: 'warning', message: `${formatInputLocation(site.line, table.lineUnit)}と同じサイトのため1件にまとめます: ${rawUrl}` });
+        this.mergeInto(businesses[site.index], url, businessName);
+        continue;
+      }
+      seenSites.set(siteKey, { line, index: businesses.length });
+
+      const firstLine = seenDomains.get(domain);
+      if (firstLine !== undefined) {
+        issues.push({ line, severity: 'warning', message: `ドメイン ${domain} が${formatInputLocation(firstLine, table.lineUnit)}と重複しています` });
+      } else {
+        seenDomains.set(domain, line);
+      }
+
+      const industry = columns.industry ? record[columns.industry] || undefined : undefined;
+      if (industry && !this.knownIndustries.includes(industry)) {
+        issues.push({ line, severity: 'warning', message: this.describeUnknownIndustry(industry) });
+      }
+
+      businesses.push({
+        url,
+        businessName,
+        industry,
+        location: columns.location ? record[columns.location] || undefined : undefined
+      });
+    }
+
+    return report();
+  }
+
+  // 重複行の事業者名を別名に加える（http と https が混在する場合は https を使う）
+  private mergeInto(business: BusinessInfo, url: string, businessName?: string): void {
+    if (url.startsWith('https://') && business.url.startsWith('http://')) {
+      business.url = url;
+    }
+
+    if (businessName && businessName !== business.businessName && !business.aliases?.includes(businessName)) {
+      business.aliases = [...(business.aliases || []), businessName];
+    }
+  }
+
+  private resolveColumns(table: InputTable, issues: InputIssue[]): Partial<Record<InputField, string>> {
+    const columns: Partial<Record<InputField, string>> = {};
+    const header = table.columns;
+
+    (Object.keys(INPUT_COLUMN_ALIASES) as InputField[]).forEach(field => {
+      // 設定で列名が指定されていればその列のみを使う
+      const mapped = this.config.columns[field];
+      const candidates = mapped ? [mapped] : INPUT_COLUMN_ALIASES[field];
+      const column = candidates.find(alias => header.includes(alias));
+      if (column) {
+        columns[field] = column;
+        return;
+      }
+
+      const line = table.headerLine;
+      const expected = candidates.join(' / ');
+      if (field === 'url') {
+        issues.push({ line, severity: 'error', message: `必須の列「${expected}」がありません（列: ${header.join(', ') || 'なし'}）` });
+      } else {
+        issues.push({ line, severity: 'warning', message: `${INPUT_COLUMN_LABELS[field]}の列「${expected}」がありません` });
+      }
+    });
+
+    return columns;
+  }
+
+  // 分析可能なURLであればwwwを除いたドメインを返す
+  private extractDomain(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (e) {
+      return null;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    const isIpAddress = /^\d{1,3}(\.\d{1,3}){3}$/.test(host);
+    // 国際化ドメインは new URL() で punycode（xn--）に変換される
+    const hasTld = /^([a-z0-9-]+\.)+([a-z]{2,}|xn--[a-z0-9-]+)$/.test(host);
+    if (!isIpAddress && !hasTld) {
+      return null;
+    }
+
+    return host.replace(/^www\./, '');
+  }
+
+  private describeUnknownIndustry(industry: string): string {
+    const suggestion = this.suggestIndustry(industry);
+    const base = `不明な業種です: ${industry}（標準の重み付けで評価されます。使用可能: ${this.knownIndustries.join(', ')}）`;
+    return suggestion ? `${base} もしかして: ${suggestion}` : base;
+  }
+
+  private suggestIndustry(industry: string): string | null {
+    const normalized = industry.toLowerCase();
+    let best: { industry: string; distance: number } | null = null;
+
+    for (const known of this.knownIndustries) {
+      const distance = this.levenshtein(normalized, known);
+      // 短い業種名ほど許容する編集距離を小さくする
+      const maxDistance = Math.min(MAX_SUGGESTION_DISTANCE, Math.floor(known.length / 2));
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { industry: known, distance };
+      }
+    }
+
+    return best ? best.industry : null;
+  }
+
+  private levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+}
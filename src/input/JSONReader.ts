@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import { errorMessage } from '../logging/Logger';
+import { decodeInput } from './decodeInput';
+import { InputReader, InputRow, InputTable } from './InputReader';
+
+// 配列を直接持たないJSONで、事業者リストとして探すプロパティ名
+const LIST_PROPERTIES = ['businesses', 'leads', 'records', 'items', 'data'];
+
+export class JSONReader implements InputReader {
+  private jsonLines: boolean;
+
+  constructor(jsonLines: boolean) {
+    this.jsonLines = jsonLines;
+  }
+
+  async read(filePath: string): Promise<InputTable> {
+    const { text, encoding } = decodeInput(readFileSync(filePath));
+    const rows = this.jsonLines ? this.parseLines(text) : this.parseDocument(text);
+
+    // 列は出現順にすべてのレコードのキーを集める
+    const columns: string[] = [];
+    rows.forEach(row => {
+      Object.keys(row.record).forEach(key => {
+        if (!columns.includes(key)) columns.push(key);
+      });
+    });
+
+    return {
+      encoding,
+      columns,
+      rows,
+      headerLine: 0,
+      lineUnit: this.jsonLines ? 'line' : 'record'
+    };
+  }
+
+  private parseDocument(text: string): InputRow[] {
+    const data = JSON.parse(text);
+    const entries = Array.isArray(data) ? data : this.findList(data);
+    if (!entries) {
+      throw new Error(`事業者の配列が見つかりません（配列、または ${LIST_PROPERTIES.join(' / ')} プロパティに配列を指定してください）`);
+    }
+
+    return entries.map((entry, index) => ({ line: index + 1, record: this.flatten(entry) }));
+  }
+
+  private parseLines(text: string): InputRow[] {
+    const rows: InputRow[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      try {
+        rows.push({ line: index + 1, record: this.flatten(JSON.parse(line)) });
+      } catch (error) {
+        throw new Error(`${index + 1}行目をJSONとして読み込めません: ${errorMessage(error)}`);
+      }
+    });
+
+    return rows;
+  }
+
+  private findList(data: unknown): unknown[] | null {
+    if (typeof data !== 'object' || data === null) {
+      return null;
+    }
+
+    const record = data as Record<string, unknown>;
+    const property = LIST_PROPERTIES.find(key => Array.isArray(record[key]));
+    return property ? record[property] as unknown[] : null;
+  }
+
+  // 入れ子のオブジェクトは "company.website" のようなキーに展開する
+  private flatten(value: unknown, prefix = '', record: Record<string, string> = {}): Record<string, string> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.entries(value).forEach(([key, child]) => {
+        this.flatten(child, prefix ? `${prefix}.${key}` : key, record);
+      });
+    } else if (prefix) {
+      record[prefix] = Array.isArray(value) ?
+        value.join(', ') :
+        value === null || value === undefined ? '' : String(value).trim();
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,52 @@
+import ExcelJS from 'exceljs';
+import { InputReader, InputRow, InputTable } from './InputReader';
+
+export class XLSXReader implements InputReader {
+  private sheetName?: string;
+
+  constructor(sheetName?: string) {
+    this.sheetName = sheetName;
+  }
+
+  async read(filePath: string): Promise<InputTable> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+
+    const worksheet = this.sheetName ?
+      workbook.getWorksheet(this.sheetName) :
+      workbook.worksheets[0];
+    if (!worksheet) {
+      throw new Error(this.sheetName ?
+        `シート「${this.sheetName}」が見つかりません（シート: ${workbook.worksheets.map(sheet => sheet.name).join(', ')}）` :
+        'シートがありません');
+    }
+
+    // 1行目を見出しとして扱う
+    const columns: string[] = [];
+    worksheet.getRow(1).eachCell((cell, columnNumber) => {
+      columns[columnNumber - 1] = cell.text.trim();
+    });
+
+    const rows: InputRow[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const record: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        // ハイパーリンクや数式のセルも表示どおりの文字列で読む
+        if (column) record[column] = row.getCell(index + 1).text.trim();
+      });
+
+      if (Object.values(record).some(value => value)) {
+        rows.push({ line: rowNumber, record });
+      }
+    });
+
+    return {
+      columns: columns.filter(Boolean),
+      rows,
+      headerLine: 1,
+      lineUnit: 'line'
+    };
+  }
+}
@@ -0,0 +1,34 @@
+// 広告・アクセス解析用のパラメータ（同じページの表記ゆれとして除去する）
+const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^(gclid|dclid|fbclid|yclid|msclkid|twclid|igshid|mc_cid|mc_eid|_ga|_gl)$/i
+];
+
+// ディレクトリのトップを表すファイル名（/index.html は / と同じページ）
+const INDEX_PAGE = /\/(index|default)\.(html?|php|aspx?|jsp|cgi)$/i;
+
+// スキームが省略されたURLに https:// を補う（ページを開くURLは入力されたものを使う）
+export function withScheme(url: string): string {
+  const trimmed = url.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// 同じサイトかどうかを比較するための正規形（入力の重複判定・リダイレクト後の集約・分析履歴のキーに使う）
+// スキーム・www の有無・ホスト名の大文字小文字・末尾スラッシュ・index ページ・フラグメント・計測用パラメータの違いを吸収する
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(withScheme(url));
+  } catch (e) {
+    return url.trim().toLowerCase();
+  }
+
+  // 他のパラメータの表記を変えないよう、計測用のパラメータがある場合のみ書き換える
+  const trackingKeys = Array.from(parsed.searchParams.keys())
+    .filter(key => TRACKING_PARAMS.some(pattern => pattern.test(key)));
+  trackingKeys.forEach(key => parsed.searchParams.delete(key));
+
+  const host = parsed.hostname.replace(/^www\./, '');
+  const path = parsed.pathname.replace(INDEX_PAGE, '/').replace(/\/+$/, '');
+  return `${host}${parsed.port ? `:${parsed.port}` : ''}${path}${parsed.search}`;
+}
@@ -0,0 +1,20 @@
+import iconv from 'iconv-lite';
+import { InputEncoding } from '../types';
+
+export interface DecodedInput {
+  text: string;
+  encoding: InputEncoding;
+}
+
+// UTF-8（BOMあり/なし）として読めなければ、日本語版Excelの既定であるCP932（Shift_JIS）とみなす
+export function decodeInput(buffer: Buffer): DecodedInput {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString('utf-8'), encoding: 'utf-8-bom' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch (e) {
+    return { text: iconv.decode(buffer, 'cp932'), encoding: 'cp932' };
+  }
+}
@@ -0,0 +1,89 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Page, Response } from 'playwright';
+import { AnalysisCategory } from '../types';
+
+export interface NavigationRecord {
+  attempt: number;
+  requestedUrl: string;
+  finalUrl: string;
+  status: number | null;
+  statusText?: string;
+  headers?: Record<string, string>;
+  durationMs: number;
+}
+
+export interface AnalyzerTiming {
+  attempt: number;
+  category: AnalysisCategory;
+  name: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ConsoleErrorRecord {
+  attempt: number;
+  // console.error の出力か、捕捉されなかった例外か
+  type: 'console' | 'pageerror';
+  text: string;
+  source?: string;
+}
+
+// 1件のURLの分析で起きたこと（再試行を含む）をまとめたデバッグ情報
+export class DebugBundle {
+  readonly url: string;
+  private startedAt = new Date();
+  private attempt = 0;
+  private navigations: NavigationRecord[] = [];
+  private analyzers: AnalyzerTiming[] = [];
+  private consoleErrors: ConsoleErrorRecord[] = [];
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  // 再試行ごとに呼び、以降の記録に試行回数を付ける
+  startAttempt(page: Page): void {
+    const attempt = ++this.attempt;
+    page.on('console', message => {
+      if (message.type() === 'error') {
+        this.consoleErrors.push({ attempt, type: 'console', text: message.text(), source: message.location().url || undefined });
+      }
+    });
+    page.on('pageerror', error => {
+      this.consoleErrors.push({ attempt, type: 'pageerror', text: error.message });
+    });
+  }
+
+  recordNavigation(requestedUrl: string, finalUrl: string, response: Response | null, durationMs: number): void {
+    this.navigations.push({
+      attempt: this.attempt,
+      requestedUrl,
+      finalUrl,
+      status: response ? response.status() : null,
+      statusText: response?.statusText() || undefined,
+      headers: response?.headers(),
+      durationMs
+    });
+  }
+
+  recordAnalyzer(category: AnalysisCategory, name: string, durationMs: number, error?: string): void {
+    this.analyzers.push({ attempt: this.attempt, category, name, durationMs, error });
+  }
+
+  // outcome は 'analyzed'、または失敗理由（FailureReason）
+  write(dir: string, fileName: string, outcome: string): string {
+    mkdirSync(dir, { recursive: true });
+    const filePath = join(dir, fileName);
+    writeFileSync(filePath, JSON.stringify({
+      url: this.url,
+      outcome,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      navigations: this.navigations,
+      analyzers: this.analyzers,
+      consoleErrors: this.consoleErrors
+    }, null, 2), 'utf-8');
+    return filePath;
+  }
+}
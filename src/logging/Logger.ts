@@ -0,0 +1,46 @@
+import winston from 'winston';
+
+// ログの各行に付ける相関用のフィールド（実行ID・分析中のURL）
+export interface LogFields {
+  runId?: string;
+  url?: string;
+}
+
+// ライブラリとして使う場合は呼び出し元のロガー（winston・pino・console など）を渡せる
+export interface Logger {
+  debug(message: string, ...meta: unknown[]): void;
+  info(message: string, ...meta: unknown[]): void;
+  warn(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+  // winston・pino の child と同じく、fields を全ての行に付けたロガーを返す
+  child?(fields: LogFields): Logger;
+}
+
+// ロガーが渡されなかった場合の既定値（標準エラー出力のみ。ファイルには書き出さない）
+export function createConsoleLogger(level = 'info'): Logger {
+  return winston.createLogger({
+    level,
+    format: winston.format.simple(),
+    transports: [new winston.transports.Console({ stderrLevels: Object.keys(winston.config.npm.levels) })]
+  });
+}
+
+// catch で受け取った値（Error 以外が投げられる場合もある）の説明
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// child を持たないロガー（console など）には fields を最後の引数として渡す
+export function withFields(logger: Logger, fields: LogFields): Logger {
+  if (logger.child) {
+    return logger.child(fields);
+  }
+
+  return {
+    debug: (message, ...meta) => logger.debug(message, ...meta, fields),
+    info: (message, ...meta) => logger.info(message, ...meta, fields),
+    warn: (message, ...meta) => logger.warn(message, ...meta, fields),
+    error: (message, ...meta) => logger.error(message, ...meta, fields),
+    child: more => withFields(logger, { ...fields, ...more })
+  };
+}
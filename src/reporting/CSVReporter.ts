@@ -1,15 +1,57 @@
 import { stringify } from 'csv-stringify/sync';
 import { writeFileSync } from 'fs';
-import { AnalysisResult } from '../types';
-import { FILE_PATHS } from '../config/constants';
+import { AnalysisResult, FailedAnalysis, ReportingConfig } from '../types';
+import {
+  FILE_PATHS,
+  DEFAULT_REPORTING_CONFIG,
+  FAILURE_REASON_LABELS,
+  FAILURE_SALES_NOTES
+} from '../config/constants';
+import { encodeOutput } from './encodeOutput';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
 
 export class CSVReporter {
-  async generate(results: AnalysisResult[]): Promise<void> {
+  private config: ReportingConfig;
+
+  constructor(config: ReportingConfig = DEFAULT_REPORTING_CONFIG) {
+    this.config = config;
+  }
+
+  async generate(results: AnalysisResult[], filePath: string = FILE_PATHS.CSV_REPORT): Promise<void> {
+    writeFileSync(filePath, encodeOutput(this.render(results), this.config.csvEncoding));
+
+    if (this.config.generateSummaryCSV && results.length > 0) {
+      this.generateSummaryCSV(results, filePath.replace(/\.csv$/, '_summary.csv'));
+    }
+  }
+
+  render(results: AnalysisResult[]): string {
     const sortedResults = this.sortResults(results);
     const csvData = this.formatForCSV(sortedResults);
-    const csvContent = stringify(csvData, { header: true });
-    
-    writeFileSync(FILE_PATHS.CSV_REPORT, csvContent, 'utf-8');
+    return stringify(csvData, { header: true });
+  }
+
+  async generateFailures(failures: FailedAnalysis[], filePath: string = FILE_PATHS.FAILURES_CSV): Promise<void> {
+    const csvData = failures.map(failure => ({
+      'URL': failure.url,
+      '事業者名': failure.businessInfo.businessName || '',
+      '業種': failure.businessInfo.industry || '',
+      '地域': failure.businessInfo.location || '',
+      '失敗理由': FAILURE_REASON_LABELS[failure.reason],
+      'HTTPステータス': failure.httpStatus ?? '',
+      '詳細': failure.message,
+      '試行回数': failure.attempts,
+      '営業メモ': FAILURE_SALES_NOTES[failure.reason],
+      '分析日時': new Date(failure.failedAt).toLocaleString('ja-JP')
+    }));
+
+    // 0件でもヘッダー行は出力する
+    const csvContent = stringify(csvData, {
+      header: true,
+      columns: ['URL', '事業者名', '業種', '地域', '失敗理由', 'HTTPステータス', '詳細', '試行回数', '営業メモ', '分析日時']
+    });
+
+    writeFileSync(filePath, encodeOutput(csvContent, this.config.csvEncoding));
   }
 
   private sortResults(results: AnalysisResult[]): AnalysisResult[] {
@@ -27,7 +69,7 @@ export class CSVReporter {
     });
   }
 
-  private formatForCSV(results: AnalysisResult[]): any[] {
+  private formatForCSV(results: AnalysisResult[]): Record<string, string | number>[] {
     return results.map(result => {
       // 主な問題点を最大3つまで抽出
       const topIssues = result.issues
@@ -47,28 +89,51 @@ export class CSVReporter {
       // 次のアクションを生成
       const nextAction = this.generateNextAction(result);
 
-      return {
+      const enrichment = result.enrichment || {};
+
+      const row: Record<string, string | number> = {
         'URL': result.url,
+        '最終URL': result.finalUrl || result.url,
         '事業者名': result.businessInfo.businessName || '',
+        '同一サイトの事業者名': result.businessInfo.aliases?.join(', ') || '',
         '業種': result.businessInfo.industry || '',
         '地域': result.businessInfo.location || '',
         '総合スコア': result.scores.total,
+        '分析状況': this.formatAnalysisStatus(result),
         '優先度': result.priority,
         '推定月間損失額（円）': Math.round(result.estimatedMonthlyLoss),
         '推奨プラン': result.recommendedPlan,
         '主な問題点': topIssues,
         '改善による期待効果（%）': totalImprovement,
-        '次のアクション': nextAction,
-        'パフォーマンススコア': result.scores.performance,
-        'モバイルスコア': result.scores.mobile,
-        'SEOスコア': result.scores.seo,
-        'コンバージョンスコア': result.scores.conversion,
-        'コンテンツスコア': result.scores.content,
+        '次のアクション': nextAction
+      };
+
+      analyzerRegistry.categories().forEach(category => {
+        row[`${analyzerRegistry.label(category)}スコア`] = result.scores[category] ?? '';
+      });
+
+      return {
+        ...row,
+        '技術スタック': enrichment.technologies?.join(', ') || '',
+        'サイト最終更新': enrichment.lastUpdated ? enrichment.lastUpdated.toLocaleDateString('ja-JP') : '',
+        'SNS': enrichment.snsLinks?.join(', ') || '',
+        '従業員数': enrichment.employeeCount || '',
+        '設立年': enrichment.establishedYear || '',
         '分析日時': new Date(result.analyzedAt).toLocaleString('ja-JP')
       };
     });
   }
 
+  private formatAnalysisStatus(result: AnalysisResult): string {
+    if (result.failedAnalyzers.length === 0) {
+      return '完了';
+    }
+
+    // 失敗したカテゴリは総合スコアの計算から除外されている
+    const failed = result.failedAnalyzers.map(failure => analyzerRegistry.label(failure.category)).join('、');
+    return `不完全（${failed}の分析に失敗）`;
+  }
+
   private generateNextAction(result: AnalysisResult): string {
     if (result.priority === 'High') {
       if (result.scores.total < 30) {
@@ -83,13 +148,14 @@ export class CSVReporter {
     }
   }
 
-  generateSummaryCSV(results: AnalysisResult[]): void {
+  generateSummaryCSV(results: AnalysisResult[], filePath: string = FILE_PATHS.CSV_REPORT.replace(/\.csv$/, '_summary.csv')): void {
     const summary = {
       '分析件数': results.length,
       '高優先度案件数': results.filter(r => r.priority === 'High').length,
       '中優先度案件数': results.filter(r => r.priority === 'Medium').length, 
       '低優先度案件数': results.filter(r => r.priority === 'Low').length,
       '平均スコア': Math.round(results.reduce((sum, r) => sum + r.scores.total, 0) / results.length),
+      '不完全な分析数': results.filter(r => r.failedAnalyzers.length > 0).length,
       '推定月間損失額合計（円）': results.reduce((sum, r) => sum + r.estimatedMonthlyLoss, 0),
       'Premium推奨数': results.filter(r => r.recommendedPlan === 'Premium').length,
       'Standard推奨数': results.filter(r => r.recommendedPlan === 'Standard').length,
@@ -99,6 +165,6 @@ export class CSVReporter {
     const summaryData = Object.entries(summary).map(([key, value]) => ({ 項目: key, 値: value }));
     const summaryCSV = stringify(summaryData, { header: true });
     
-    writeFileSync(FILE_PATHS.CSV_REPORT.replace('.csv', '_summary.csv'), summaryCSV, 'utf-8');
+    writeFileSync(filePath, encodeOutput(summaryCSV, this.config.csvEncoding));
   }
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { stringify } from 'csv-stringify/sync';
+import { writeFileSync } from 'fs';
+import { AnalysisCategory, Issue, ProspectChange, ProspectDiff, ReportingConfig, RunDiff } from '../types';
+import {
+  FILE_PATHS,
+  DEFAULT_REPORTING_CONFIG,
+  FAILURE_REASON_LABELS,
+  FAILURE_SALES_NOTES,
+  PROSPECT_CHANGE_LABELS
+} from '../config/constants';
+import { encodeOutput } from './encodeOutput';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
+
+export class DiffReporter {
+  private config: ReportingConfig;
+
+  constructor(config: ReportingConfig = DEFAULT_REPORTING_CONFIG) {
+    this.config = config;
+  }
+
+  async generate(diff: RunDiff): Promise<void> {
+    writeFileSync(FILE_PATHS.DIFF_MARKDOWN_REPORT, this.generateMarkdown(diff), 'utf-8');
+    writeFileSync(FILE_PATHS.DIFF_CSV_REPORT, encodeOutput(this.generateCSV(diff), this.config.csvEncoding));
+  }
+
+  private generateMarkdown(diff: RunDiff): string {
+    const sections = [
+      this.generateHeader(diff),
+      this.generateSummary(diff),
+      this.generateScoreChanges(diff, 'Worsened'),
+      this.generateScoreChanges(diff, 'Improved'),
+      this.generateWentDown(diff),
+      this.generateIssueChanges(diff),
+      this.generateMembershipChanges(diff)
+    ];
+
+    return sections.join('\n\n');
+  }
+
+  private generateHeader(diff: RunDiff): string {
+    return `# PageYou 再分析差分レポート
+
+**生成日時**: ${new Date().toLocaleString('ja-JP')}  
+**比較元**: ${diff.baseRunId}（${new Date(diff.baseStartedAt).toLocaleString('ja-JP')}）  
+**比較先**: ${diff.targetRunId}（${new Date(diff.targetStartedAt).toLocaleString('ja-JP')}）
+
+---`;
+  }
+
+  private generateSummary(diff: RunDiff): string {
+    const counts = (Object.keys(PROSPECT_CHANGE_LABELS) as ProspectChange[])
+      .map(change => ({ change, count: this.filterByChange(diff, change).length }))
+      .filter(({ count }) => count > 0)
+      .map(({ change, count }) => `- **${PROSPECT_CHANGE_LABELS[change]}**: ${count}件`)
+      .join('\n');
+
+    return `## 1. 変化の概要
+
+### 📊 比較結果
+
+- **比較件数**: ${diff.prospects.length}件
+${counts}
+
+### 🎯 営業上のポイント
+
+- **悪化**したサイトは、改めて改善提案を行う好機です
+- **改善**したサイトは、他社に制作・改修を依頼した可能性があります
+- **アクセス不可**になったサイトは、サイト閉鎖やドメイン失効の可能性があり、新規制作の見込みが高い案件です`;
+  }
+
+  private generateScoreChanges(diff: RunDiff, change: 'Improved' | 'Worsened'): string {
+    const isWorsened = change === 'Worsened';
+    const title = isWorsened ? '## 2. 悪化した見込み客' : '## 3. 改善した見込み客';
+    const prospects = this.filterByChange(diff, change)
+      .sort((a, b) => isWorsened ? a.scoreDelta! - b.scoreDelta! : b.scoreDelta! - a.scoreDelta!);
+
+    if (prospects.length === 0) {
+      return `${title}\n\n該当する見込み客はありません。`;
+    }
+
+    const rows = prospects.map(prospect => {
+      const categoryChanges = analyzerRegistry.categories()
+        .map(category => this.formatCategoryDelta(prospect, category))
+        .filter(Boolean)
+        .join(', ');
+
+      return `| ${prospect.businessInfo.businessName || '-'} | ${prospect.url} | ${prospect.before!.scores.total} → ${prospect.after!.scores.total}（${this.formatDelta(prospect.scoreDelta!)}） | ${prospect.before!.priority} → ${prospect.after!.priority} | ${categoryChanges || '-'} |`;
+    }).join('\n');
+
+    return `${title}（${prospects.length}件）
+
+| 事業者名 | URL | 総合スコア | 優先度 | カテゴリ別の変化 |
+|---------|-----|-----------|--------|----------------|
+${rows}`;
+  }
+
+  private generateWentDown(diff: RunDiff): string {
+    const prospects = this.filterByChange(diff, 'WentDown');
+    if (prospects.length === 0) {
+      return '## 4. アクセスできなくなったサイト\n\n該当するサイトはありません。';
+    }
+
+    const rows = prospects.map(prospect => {
+      const failure = prospect.afterFailure!;
+      return `| ${prospect.businessInfo.businessName || '-'} | ${prospect.url} | ${prospect.before!.scores.total} | ${FAILURE_REASON_LABELS[failure.reason]} | ${FAILURE_SALES_NOTES[failure.reason]} |`;
+    }).join('\n');
+
+    return `## 4. アクセスできなくなったサイト（${prospects.length}件）
+
+| 事業者名 | URL | 前回スコア | 失敗理由 | 営業メモ |
+|---------|-----|-----------|---------|---------|
+${rows}`;
+  }
+
+  private generateIssueChanges(diff: RunDiff): string {
+    const prospects = diff.prospects
+      .filter(prospect => prospect.fixedIssues.length > 0 || prospect.newIssues.length > 0);
+
+    if (prospects.length === 0) {
+      return '## 5. 課題の変化\n\n解消・新規発生した課題はありません。';
+    }
+
+    let content = `## 5. 課題の変化（${prospects.length}件）\n`;
+
+    prospects.forEach(prospect => {
+      content += `\n### ${prospect.businessInfo.businessName || prospect.url}\n\n`;
+      content += `**URL**: ${prospect.url}\n`;
+      if (prospect.fixedIssues.length > 0) {
+        content += `\n#### ✅ 解消した課題\n\n${this.formatIssues(prospect.fixedIssues)}\n`;
+      }
+      if (prospect.newIssues.length > 0) {
+        content += `\n#### 🚨 新たに発生した課題\n\n${this.formatIssues(prospect.newIssues)}\n`;
+      }
+    });
+
+    return content.trimEnd();
+  }
+
+  private generateMembershipChanges(diff: RunDiff): string {
+    const groups: ProspectChange[] = ['Recovered', 'StillDown', 'Added', 'Removed'];
+    const lists = groups
+      .map(change => ({ change, prospects: this.filterByChange(diff, change) }))
+      .filter(({ prospects }) => prospects.length > 0)
+      .map(({ change, prospects }) => {
+        const items = prospects
+          .map(prospect => `- ${prospect.businessInfo.businessName || '-'}: ${prospect.url}`)
+          .join('\n');
+        return `### ${PROSPECT_CHANGE_LABELS[change]}（${prospects.length}件）\n\n${items}`;
+      });
+
+    if (lists.length === 0) {
+      return '## 6. その他の変化\n\n該当するサイトはありません。';
+    }
+
+    return `## 6. その他の変化\n\n${lists.join('\n\n')}`;
+  }
+
+  private generateCSV(diff: RunDiff): string {
+    const csvData = diff.prospects.map(prospect => {
+      const row: Record<string, string | number> = {
+        'URL': prospect.url,
+        '事業者名': prospect.businessInfo.businessName || '',
+        '変化': PROSPECT_CHANGE_LABELS[prospect.change],
+        '比較元スコア': prospect.before?.scores.total ?? '',
+        '比較先スコア': prospect.after?.scores.total ?? '',
+        'スコア差分': prospect.scoreDelta ?? ''
+      };
+
+      analyzerRegistry.categories().forEach(category => {
+        row[`${analyzerRegistry.label(category)}差分`] = this.categoryDelta(prospect, category) ?? '';
+      });
+
+      row['比較元優先度'] = prospect.before?.priority || '';
+      row['比較先優先度'] = prospect.after?.priority || '';
+      row['解消した課題'] = prospect.fixedIssues.map(issue => issue.description).join('; ');
+      row['新たな課題'] = prospect.newIssues.map(issue => issue.description).join('; ');
+      row['失敗理由'] = prospect.afterFailure ? FAILURE_REASON_LABELS[prospect.afterFailure.reason] : '';
+
+      return row;
+    });
+
+    return stringify(csvData, { header: true });
+  }
+
+  private filterByChange(diff: RunDiff, change: ProspectChange): ProspectDiff[] {
+    return diff.prospects.filter(prospect => prospect.change === change);
+  }
+
+  // どちらかの実行で分析に失敗したカテゴリは比較しない
+  private categoryDelta(prospect: ProspectDiff, category: AnalysisCategory): number | null {
+    const before = prospect.before?.scores[category];
+    const after = prospect.after?.scores[category];
+    if (before === undefined || before === null || after === undefined || after === null) {
+      return null;
+    }
+    return after - before;
+  }
+
+  private formatCategoryDelta(prospect: ProspectDiff, category: AnalysisCategory): string {
+    const delta = this.categoryDelta(prospect, category);
+    return delta ? `${analyzerRegistry.label(category)} ${this.formatDelta(delta)}` : '';
+  }
+
+  private formatDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : String(delta);
+  }
+
+  private formatIssues(issues: Issue[]): string {
+    return issues.map(issue => `- **[${issue.severity}]** ${issue.description}`).join('\n');
+  }
+}
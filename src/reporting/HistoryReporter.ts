@@ -0,0 +1,74 @@
+import { HistoryEntry } from '../history/HistoryStore';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
+
+export class HistoryReporter {
+  render(url: string, entries: HistoryEntry[]): string {
+    if (entries.length === 0) {
+      return `${url} の分析履歴はありません。`;
+    }
+
+    const lines = [
+      `📈 ${entries[entries.length - 1].url} の分析履歴（${entries.length}件）`,
+      '',
+      this.generateTable(entries),
+      '',
+      '## スコア推移（初回 → 最新）',
+      '',
+      this.generateTrends(entries)
+    ];
+
+    const configHashes = new Set(entries.map(entry => entry.configHash));
+    if (configHashes.size > 1) {
+      lines.push('', '※ 設定（重み・閾値など）が異なる実行が含まれています。スコアの比較は「設定」列を確認してください。');
+    }
+
+    return lines.join('\n');
+  }
+
+  private generateTable(entries: HistoryEntry[]): string {
+    const categories = analyzerRegistry.categories();
+    const header = ['分析日時', '実行ID', '設定', '総合', ...categories.map(category => analyzerRegistry.label(category)), '優先度'];
+    const rows = entries.map(entry => [
+      entry.analyzedAt.toLocaleString('ja-JP'),
+      entry.runId,
+      entry.configHash,
+      String(entry.totalScore),
+      ...categories.map(category => this.formatScore(entry.scores[category] ?? null)),
+      entry.priority
+    ]);
+
+    return [
+      `| ${header.join(' | ')} |`,
+      `|${header.map(() => '---').join('|')}|`,
+      ...rows.map(row => `| ${row.join(' | ')} |`)
+    ].join('\n');
+  }
+
+  private generateTrends(entries: HistoryEntry[]): string {
+    const first = entries[0];
+    const latest = entries[entries.length - 1];
+
+    const trends = [`- 総合: ${this.formatTrend(first.totalScore, latest.totalScore)}`];
+    analyzerRegistry.categories().forEach(category => {
+      // 分析に失敗した回（カテゴリ追加前の回を含む）を除いて、最初と最後に取得できたスコアを比較
+      const scored = entries.filter(entry => entry.scores[category] !== null && entry.scores[category] !== undefined);
+      const trend = scored.length > 0 ?
+        this.formatTrend(scored[0].scores[category]!, scored[scored.length - 1].scores[category]!) :
+        '—';
+      trends.push(`- ${analyzerRegistry.label(category)}: ${trend}`);
+    });
+
+    return trends.join('\n');
+  }
+
+  private formatTrend(before: number, after: number): string {
+    const delta = after - before;
+    const arrow = delta > 0 ? '↑' : delta < 0 ? '↓' : '→';
+    const sign = delta > 0 ? '+' : '';
+    return `${before} → ${after}（${arrow} ${sign}${delta}）`;
+  }
+
+  private formatScore(score: number | null): string {
+    return score === null ? '—' : String(score);
+  }
+}
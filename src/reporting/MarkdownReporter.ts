@@ -1,39 +1,99 @@
 import { writeFileSync } from 'fs';
-import { AnalysisResult } from '../types';
-import { FILE_PATHS, PAGEYOU_PLANS } from '../config/constants';
+import { dirname, relative } from 'path';
+import { AnalysisResult, AnalyzerConfig, FailedAnalysis, FailureReason, ReportingConfig } from '../types';
+import {
+  FILE_PATHS,
+  PAGEYOU_PLANS,
+  DEFAULT_ANALYZER_CONFIG,
+  DEFAULT_REPORTING_CONFIG,
+  FAILURE_REASON_LABELS,
+  FAILURE_SALES_NOTES
+} from '../config/constants';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
 
 export class MarkdownReporter {
-  async generate(results: AnalysisResult[]): Promise<void> {
-    const markdown = this.generateMarkdown(results);
-    writeFileSync(FILE_PATHS.MARKDOWN_REPORT, markdown, 'utf-8');
+  private config: ReportingConfig;
+  private thresholds: AnalyzerConfig;
+
+  constructor(
+    config: ReportingConfig = DEFAULT_REPORTING_CONFIG,
+    thresholds: AnalyzerConfig = DEFAULT_ANALYZER_CONFIG
+  ) {
+    this.config = config;
+    this.thresholds = thresholds;
   }
 
-  private generateMarkdown(results: AnalysisResult[]): string {
+  async generate(
+    results: AnalysisResult[],
+    failures: FailedAnalysis[] = [],
+    filePath: string = FILE_PATHS.MARKDOWN_REPORT,
+    pendingCount = 0
+  ): Promise<void> {
+    const markdown = this.render(results, failures, dirname(filePath), pendingCount);
+    writeFileSync(filePath, markdown, 'utf-8');
+  }
+
+  // スクリーンショットへのリンクは reportDir からの相対パスで出力する
+  // pendingCount が1以上の場合は中断された実行の途中結果として出力する
+  render(
+    results: AnalysisResult[],
+    failures: FailedAnalysis[],
+    reportDir = dirname(FILE_PATHS.MARKDOWN_REPORT),
+    pendingCount = 0
+  ): string {
     const sections = [
-      this.generateHeader(),
-      this.generateExecutiveSummary(results),
-      this.generateHighPriorityDetails(results),
+      this.generateHeader(pendingCount),
+      this.generateExecutiveSummary(results, failures),
+      this.generateHighPriorityDetails(results, reportDir),
       this.generateIndustryAnalysis(results),
       this.generateRecommendations(results),
+      this.generateFailedUrls(failures),
       this.generateAppendix()
     ];
 
     return sections.join('\n\n');
   }
 
-  private generateHeader(): string {
-    return `# PageYou 見込み顧客分析レポート
+  // 1件分の分析結果（analyze-url 用）
+  renderProspect(outcome: AnalysisResult | FailedAnalysis): string {
+    if ('reason' in outcome) {
+      return `## ${outcome.businessInfo.businessName || outcome.url}
+
+**URL**: ${outcome.url}  
+**結果**: アクセスできませんでした（${FAILURE_REASON_LABELS[outcome.reason]}${outcome.httpStatus ? ` / HTTP ${outcome.httpStatus}` : ''}）  
+**詳細**: ${outcome.message}  
+**営業メモ**: ${FAILURE_SALES_NOTES[outcome.reason]}`;
+    }
+
+    return this.generateDetailedAnalysis(outcome, dirname(FILE_PATHS.MARKDOWN_REPORT)).replace(/^###/, '##');
+  }
+
+  private generateHeader(pendingCount: number): string {
+    const partialNote = pendingCount > 0 ?
+      `\n\n> ⚠️ **途中結果**: 実行が中断されたため、${pendingCount}件が未分析です。再開して完了すると通常のレポートが出力されます。` :
+      '';
+
+    return `# PageYou 見込み顧客分析レポート${pendingCount > 0 ? '（途中結果）' : ''}
 
 **生成日時**: ${new Date().toLocaleString('ja-JP')}  
-**分析ツール**: PageYou Prospect Analyzer v1.0
+**分析ツール**: PageYou Prospect Analyzer v1.0${partialNote}
 
 ---`;
   }
 
-  private generateExecutiveSummary(results: AnalysisResult[]): string {
+  private generateExecutiveSummary(results: AnalysisResult[], failures: FailedAnalysis[]): string {
     const highPriority = results.filter(r => r.priority === 'High');
     const totalLoss = results.reduce((sum, r) => sum + r.estimatedMonthlyLoss, 0);
-    const avgScore = Math.round(results.reduce((sum, r) => sum + r.scores.total, 0) / results.length);
+    const avgScore = results.length > 0 ?
+      Math.round(results.reduce((sum, r) => sum + r.scores.total, 0) / results.length) :
+      0;
+    const incomplete = results.filter(r => r.failedAnalyzers.length > 0);
+    const incompleteLine = incomplete.length > 0 ?
+      `\n- **⚠️ 不完全な分析**: ${incomplete.length}件（一部カテゴリの分析に失敗。失敗分を除いてスコアを算出）` :
+      '';
+    const failureLine = failures.length > 0 ?
+      `\n- **アクセス不可**: ${failures.length}件（詳細は「5. アクセスできなかったサイト」を参照）` :
+      '';
 
     return `## 1. エグゼクティブサマリー
 
@@ -42,7 +102,7 @@ export class MarkdownReporter {
 - **分析件数**: ${results.length}件
 - **高優先度案件**: ${highPriority.length}件
 - **平均スコア**: ${avgScore}点
-- **推定機会損失合計**: ¥${totalLoss.toLocaleString()}/月
+- **推定機会損失合計**: ¥${totalLoss.toLocaleString()}/月${incompleteLine}${failureLine}
 
 ### 🎯 重要な発見
 
@@ -54,34 +114,30 @@ ${this.generateKeyFindings(results)}
   }
 
   private generateKeyFindings(results: AnalysisResult[]): string {
-    const findings = [];
-
-    // パフォーマンスの問題
-    const poorPerformance = results.filter(r => r.scores.performance < 50);
-    if (poorPerformance.length > 0) {
-      findings.push(`- **${poorPerformance.length}件**のサイトで深刻な表示速度の問題を検出`);
-    }
-
-    // モバイル対応の問題
-    const poorMobile = results.filter(r => r.scores.mobile < 50);
-    if (poorMobile.length > 0) {
-      findings.push(`- **${poorMobile.length}件**のサイトがモバイル対応不十分`);
-    }
-
-    // コンバージョンの問題
-    const poorConversion = results.filter(r => r.scores.conversion < 50);
-    if (poorConversion.length > 0) {
-      findings.push(`- **${poorConversion.length}件**のサイトで問い合わせ導線に問題`);
-    }
+    const findings: string[] = [];
+
+    // カテゴリごとに、しきい値を下回ったサイトの件数
+    analyzerRegistry.list().forEach(analyzer => {
+      const threshold = analyzer.threshold(this.thresholds);
+      const poor = results.filter(r => this.isBelow(r.scores[analyzer.category], threshold));
+      if (poor.length > 0) {
+        findings.push(`- **${poor.length}件**の${analyzer.finding}`);
+      }
+    });
 
     return findings.join('\n');
   }
 
-  private generateHighPriorityDetails(results: AnalysisResult[]): string {
+  // 分析に失敗したカテゴリ（null）や分析していないカテゴリは集計対象外
+  private isBelow(score: number | null | undefined, threshold: number): boolean {
+    return score !== null && score !== undefined && score < threshold;
+  }
+
+  private generateHighPriorityDetails(results: AnalysisResult[], reportDir: string): string {
     const highPriority = results
       .filter(r => r.priority === 'High')
       .sort((a, b) => b.estimatedMonthlyLoss - a.estimatedMonthlyLoss)
-      .slice(0, 10);
+      .slice(0, this.config.maxHighPriorityDetails);
 
     if (highPriority.length === 0) {
       return '## 2. 高優先度案件詳細\n\n高優先度案件はありません。';
@@ -90,14 +146,14 @@ ${this.generateKeyFindings(results)}
     let content = `## 2. 高優先度案件詳細（上位${highPriority.length}件）\n\n`;
 
     highPriority.forEach((result, index) => {
-      content += this.generateDetailedAnalysis(result, index + 1);
+      content += this.generateDetailedAnalysis(result, reportDir, index + 1);
       content += '\n---\n\n';
     });
 
     return content;
   }
 
-  private generateDetailedAnalysis(result: AnalysisResult, rank: number): string {
+  private generateDetailedAnalysis(result: AnalysisResult, reportDir: string, rank?: number): string {
     const topIssues = result.issues
       .sort((a, b) => {
         const severityOrder = { Critical: 1, High: 2, Medium: 3, Low: 4 };
@@ -109,23 +165,21 @@ ${this.generateKeyFindings(results)}
       .sort((a, b) => b.priority - a.priority)
       .slice(0, 3);
 
-    return `### ${rank}. ${result.businessInfo.businessName || result.url}
+    const incompleteMarker = result.failedAnalyzers.length > 0 ? ' ⚠️ 不完全' : '';
+
+    return `### ${rank ? `${rank}. ` : ''}${result.businessInfo.businessName || result.url}${incompleteMarker}
 
 **URL**: ${result.url}  
-**業種**: ${result.businessInfo.industry || '未分類'}  
+${this.generateSiteLines(result)}**業種**: ${result.businessInfo.industry || '未分類'}  
 **総合スコア**: ${result.scores.total}点  
-**推定月間損失**: ¥${result.estimatedMonthlyLoss.toLocaleString()}
+${rank ? '' : `**優先度**: ${result.priority}  \n`}**推定月間損失**: ¥${result.estimatedMonthlyLoss.toLocaleString()}${this.generateCompanyProfile(result)}
 
 #### 📈 スコア内訳
 
 | カテゴリ | スコア | 評価 |
 |---------|--------|------|
-| パフォーマンス | ${result.scores.performance} | ${this.getScoreEmoji(result.scores.performance)} |
-| モバイル対応 | ${result.scores.mobile} | ${this.getScoreEmoji(result.scores.mobile)} |
-| SEO | ${result.scores.seo} | ${this.getScoreEmoji(result.scores.seo)} |
-| コンバージョン | ${result.scores.conversion} | ${this.getScoreEmoji(result.scores.conversion)} |
-| コンテンツ | ${result.scores.content} | ${this.getScoreEmoji(result.scores.content)} |
-
+${this.generateScoreRows(result)}
+${this.generateFailedAnalyzerNote(result)}
 #### 🚨 主な問題点
 
 ${topIssues.map(issue => `- **[${issue.severity}]** ${issue.description}\n  - 影響: ${issue.impact}`).join('\n')}
@@ -138,10 +192,101 @@ ${topOpportunities.map(opp => `- **${opp.title}**\n  - ${opp.description}\n  - 
 
 **推奨プラン**: ${result.recommendedPlan}プラン（${PAGEYOU_PLANS[result.recommendedPlan].monthlyPrice.toLocaleString()}円/月）
 
-${this.generateROIEstimate(result)}`;
+${this.generateROIEstimate(result)}${this.generateScreenshotLinks(result, reportDir)}${this.generateRecordingLinks(result, reportDir)}`;
+  }
+
+  private generateScreenshotLinks(result: AnalysisResult, reportDir: string): string {
+    if (!this.config.includeScreenshots || !result.screenshots.desktop) {
+      return '';
+    }
+
+    // レポートファイルからの相対パスでリンクする
+    const desktop = relative(reportDir, result.screenshots.desktop);
+    const mobile = relative(reportDir, result.screenshots.mobile);
+
+    return `\n\n#### 📷 スクリーンショット\n\n[デスクトップ](${desktop}) / [モバイル](${mobile})`;
+  }
+
+  // 性能の評価の根拠として、HAR・トレースを記録した場合のみリンクする
+  private generateRecordingLinks(result: AnalysisResult, reportDir: string): string {
+    const recordings = result.recordings;
+    if (!recordings) {
+      return '';
+    }
+
+    const links = [
+      recordings.har && `[HAR](${relative(reportDir, recordings.har)})`,
+      recordings.trace && `[Playwright トレース](${relative(reportDir, recordings.trace)})`
+    ].filter(Boolean);
+
+    return links.length > 0 ? `\n\n#### 📡 通信記録\n\n${links.join(' / ')}` : '';
+  }
+
+  private generateCompanyProfile(result: AnalysisResult): string {
+    const enrichment = result.enrichment;
+    if (!enrichment) {
+      return '';
+    }
+
+    const profile: string[] = [];
+    if (enrichment.technologies && enrichment.technologies.length > 0) {
+      profile.push(enrichment.technologies.join(', '));
+    }
+    if (enrichment.establishedYear) {
+      profile.push(`設立 ${enrichment.establishedYear}`);
+    }
+    if (enrichment.employeeCount) {
+      profile.push(`従業員 約${enrichment.employeeCount}`);
+    }
+    if (enrichment.lastUpdated) {
+      profile.push(`最終更新 ${enrichment.lastUpdated.toLocaleDateString('ja-JP')}`);
+    }
+    if (enrichment.snsLinks && enrichment.snsLinks.length > 0) {
+      profile.push(`SNS: ${enrichment.snsLinks.join(', ')}`);
+    }
+
+    return profile.length > 0 ? `  \n**企業情報**: ${profile.join(' / ')}` : '';
+  }
+
+  private generateFailedAnalyzerNote(result: AnalysisResult): string {
+    if (result.failedAnalyzers.length === 0) {
+      return '';
+    }
+
+    const failures = result.failedAnalyzers
+      .map(failure => `- ${analyzerRegistry.label(failure.category)}: ${failure.timedOut ? '⏱ ' : ''}${failure.reason}`)
+      .join('\n');
+
+    return `\n> ⚠️ **不完全な分析**: 以下のカテゴリは分析に失敗したため、総合スコアは残りのカテゴリのみで算出しています。\n\n${failures}\n`;
+  }
+
+  // リダイレクト先と同じサイトに集約された事業者名（該当する場合のみ）
+  private generateSiteLines(result: AnalysisResult): string {
+    let lines = '';
+    if (result.finalUrl && result.finalUrl !== result.url) {
+      lines += `**リダイレクト先**: ${result.finalUrl}  \n`;
+    }
+    if (result.businessInfo.aliases?.length) {
+      lines += `**同一サイトの事業者**: ${result.businessInfo.aliases.join('、')}  \n`;
+    }
+    return lines;
   }
 
-  private getScoreEmoji(score: number): string {
+  private generateScoreRows(result: AnalysisResult): string {
+    return analyzerRegistry.categories()
+      .map(category => {
+        const score = result.scores[category] ?? null;
+        return `| ${analyzerRegistry.label(category)} | ${this.formatScore(score)} | ${this.getScoreEmoji(score)} |`;
+      })
+      .join('\n');
+  }
+
+  private formatScore(score: number | null): string {
+    return score === null ? '—' : String(score);
+  }
+
+  private getScoreEmoji(score: number | null): string {
+    if (score === null) return '⚠️ 分析失敗';
     if (score >= 80) return '🟢 優秀';
     if (score >= 60) return '🟡 良好';
     if (score >= 40) return '🟠 要改善';
@@ -267,8 +412,39 @@ ${this.generateROIEstimate(result)}`;
       .join('と');
   }
 
+  private generateFailedUrls(failures: FailedAnalysis[]): string {
+    if (failures.length === 0) {
+      return '## 5. アクセスできなかったサイト\n\nすべてのサイトにアクセスできました。';
+    }
+
+    // 失敗理由ごとの件数
+    const byReason = new Map<FailureReason, number>();
+    failures.forEach(failure => {
+      byReason.set(failure.reason, (byReason.get(failure.reason) || 0) + 1);
+    });
+
+    const reasonSummary = Array.from(byReason.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([reason, count]) => `- **${FAILURE_REASON_LABELS[reason]}**: ${count}件 — ${FAILURE_SALES_NOTES[reason]}`)
+      .join('\n');
+
+    const rows = failures
+      .map(failure => `| ${failure.businessInfo.businessName || '-'} | ${failure.url} | ${FAILURE_REASON_LABELS[failure.reason]} | ${failure.httpStatus ?? '-'} | ${failure.message.replace(/\|/g, '\\|')} |`)
+      .join('\n');
+
+    return `## 5. アクセスできなかったサイト（${failures.length}件）
+
+サイトが停止している・ドメインが失効している事業者は、新規サイト制作の有力な見込み顧客です。
+
+${reasonSummary}
+
+| 事業者名 | URL | 失敗理由 | HTTP | 詳細 |
+|---------|-----|---------|------|------|
+${rows}`;
+  }
+
   private generateAppendix(): string {
-    return `## 5. 付録
+    return `## 6. 付録
 
 ### 📖 用語説明
 
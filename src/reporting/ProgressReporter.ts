@@ -0,0 +1,109 @@
+import { AnalysisResult } from '../types';
+import { AnalysisEventEmitter } from '../runner/AnalysisEvents';
+
+const BAR_WIDTH = 24;
+
+// 一括分析の進捗をターミナルに表示する（端末でなければ1件ごとに1行ずつ出力）
+export class ProgressReporter {
+  private stream: NodeJS.WriteStream;
+  private total = 0;
+  private completed = 0;
+  private failed = 0;
+  private priorities: Record<AnalysisResult['priority'], number> = { High: 0, Medium: 0, Low: 0 };
+  private startedAt = 0;
+  private active = false;
+
+  constructor(stream: NodeJS.WriteStream = process.stderr) {
+    this.stream = stream;
+  }
+
+  attach(emitter: AnalysisEventEmitter): void {
+    emitter.on('started', event => {
+      this.total = event.total;
+      this.completed = 0;
+      this.failed = 0;
+      this.priorities = { High: 0, Medium: 0, Low: 0 };
+      this.startedAt = event.startedAt.getTime();
+      this.active = this.stream.isTTY === true && event.total > 0;
+      this.redraw();
+    });
+
+    emitter.on('url-finished', event => {
+      this.priorities[event.result.priority]++;
+      this.update(event.completed);
+    });
+
+    emitter.on('url-failed', event => {
+      this.failed++;
+      this.update(event.completed);
+    });
+  }
+
+  // ログを出力する前にバーを消す（出力後に redraw() で描き直す）
+  clear(): void {
+    if (this.active) {
+      this.stream.write('\r\x1b[2K');
+    }
+  }
+
+  redraw(): void {
+    if (this.active) {
+      this.stream.write(`\r\x1b[2K${this.renderBar()} ${this.renderStatus()}`);
+    }
+  }
+
+  private update(completed: number): void {
+    this.completed = completed;
+
+    if (!this.stream.isTTY) {
+      this.stream.write(`進捗 ${this.renderStatus()}\n`);
+      return;
+    }
+
+    this.redraw();
+    if (this.active && this.completed >= this.total) {
+      this.stream.write('\n');
+      this.active = false;
+    }
+  }
+
+  private renderBar(): string {
+    const ratio = this.total > 0 ? this.completed / this.total : 0;
+    const filled = Math.round(ratio * BAR_WIDTH);
+    return `[${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}]`;
+  }
+
+  private renderStatus(): string {
+    const percent = this.total > 0 ? Math.floor((this.completed / this.total) * 100) : 0;
+    const counts = [
+      `High ${this.priorities.High}`,
+      `Medium ${this.priorities.Medium}`,
+      `Low ${this.priorities.Low}`,
+      `アクセス不可 ${this.failed}`
+    ].join('・');
+    return `${this.completed}/${this.total}（${percent}%）${this.renderEta()} / ${counts}`;
+  }
+
+  private renderEta(): string {
+    if (this.completed >= this.total) {
+      return `完了 ${this.formatDuration(Date.now() - this.startedAt)}`;
+    }
+    if (this.completed === 0) {
+      return '残り時間を計算中';
+    }
+
+    // これまでの1件あたりの平均所要時間から残り時間を見積もる
+    const elapsed = Date.now() - this.startedAt;
+    return `残り約${this.formatDuration((elapsed / this.completed) * (this.total - this.completed))}`;
+  }
+
+  private formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+
+    if (hours > 0) return `${hours}時間${minutes}分`;
+    if (minutes > 0) return `${minutes}分${seconds % 60}秒`;
+    return `${seconds}秒`;
+  }
+}
@@ -0,0 +1,51 @@
+import { mkdirSync } from 'fs';
+import { basename, join } from 'path';
+import { AnalysisBatch, AnalysisResult, AnalyzerConfig, FailedAnalysis, ReportingConfig } from '../types';
+import { DEFAULT_ANALYZER_CONFIG, DEFAULT_REPORTING_CONFIG, FILE_PATHS } from '../config/constants';
+import { AnalysisSink } from '../runner/AnalysisSink';
+import { CSVReporter } from './CSVReporter';
+import { MarkdownReporter } from './MarkdownReporter';
+
+// 全件の分析が終わったら CSV・アクセス不可一覧・Markdown レポートを outputDir に書き出す
+export class ReportSink implements AnalysisSink {
+  private outputDir: string;
+  private csvReporter: CSVReporter;
+  private markdownReporter: MarkdownReporter;
+
+  constructor(
+    outputDir: string,
+    config: ReportingConfig = DEFAULT_REPORTING_CONFIG,
+    thresholds: AnalyzerConfig = DEFAULT_ANALYZER_CONFIG
+  ) {
+    this.outputDir = outputDir;
+    this.csvReporter = new CSVReporter(config);
+    this.markdownReporter = new MarkdownReporter(config, thresholds);
+  }
+
+  async onComplete(batch: AnalysisBatch): Promise<string[]> {
+    return this.write(batch.results, batch.failures);
+  }
+
+  // 書き出したファイルのパスを返す。未分析の件数（pendingCount）がある場合は
+  // 完了時のレポートと区別できるよう、ファイル名に _partial を付けた途中結果として書き出す
+  async write(results: AnalysisResult[], failures: FailedAnalysis[], pendingCount = 0): Promise<string[]> {
+    mkdirSync(this.outputDir, { recursive: true });
+
+    const csvPath = this.reportPath(FILE_PATHS.CSV_REPORT, pendingCount);
+    const failuresPath = this.reportPath(FILE_PATHS.FAILURES_CSV, pendingCount);
+    const markdownPath = this.reportPath(FILE_PATHS.MARKDOWN_REPORT, pendingCount);
+
+    await Promise.all([
+      this.csvReporter.generate(results, csvPath),
+      this.csvReporter.generateFailures(failures, failuresPath),
+      this.markdownReporter.generate(results, failures, markdownPath, pendingCount)
+    ]);
+
+    return [csvPath, failuresPath, markdownPath];
+  }
+
+  private reportPath(defaultPath: string, pendingCount: number): string {
+    const fileName = basename(defaultPath);
+    return join(this.outputDir, pendingCount > 0 ? fileName.replace(/(\.\w+)$/, '_partial$1') : fileName);
+  }
+}
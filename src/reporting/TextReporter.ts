@@ -0,0 +1,67 @@
+import { AnalysisResult, FailedAnalysis } from '../types';
+import {
+  PAGEYOU_PLANS,
+  FAILURE_REASON_LABELS,
+  FAILURE_SALES_NOTES
+} from '../config/constants';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
+
+// 電話中などにターミナルでそのまま読める簡易表示
+export class TextReporter {
+  render(outcome: AnalysisResult | FailedAnalysis): string {
+    if ('reason' in outcome) {
+      return this.renderFailure(outcome);
+    }
+
+    const result = outcome;
+    const plan = PAGEYOU_PLANS[result.recommendedPlan];
+
+    const scoreLines = analyzerRegistry.categories().map(category => {
+      const score = result.scores[category] ?? null;
+      const value = score === null ? '—（分析失敗）' : `${score}点`;
+      return `  ${analyzerRegistry.label(category)}: ${value}`;
+    });
+
+    const issueLines = [...result.issues]
+      .sort((a, b) => {
+        const severityOrder = { Critical: 1, High: 2, Medium: 3, Low: 4 };
+        return severityOrder[a.severity] - severityOrder[b.severity];
+      })
+      .slice(0, 5)
+      .map(issue => `  - [${issue.severity}] ${issue.description}`);
+
+    const opportunityLines = [...result.opportunities]
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, 3)
+      .map(opp => `  - ${opp.title}（¥${opp.estimatedRevenueLift.toLocaleString()}/月）`);
+
+    return [
+      `${result.businessInfo.businessName || result.url}`,
+      `URL: ${result.url}`,
+      ...(result.finalUrl && result.finalUrl !== result.url ? [`リダイレクト先: ${result.finalUrl}`] : []),
+      ...(result.businessInfo.aliases?.length ? [`同一サイトの事業者: ${result.businessInfo.aliases.join('、')}`] : []),
+      `総合スコア: ${result.scores.total}点 / 優先度: ${result.priority}`,
+      `推定月間損失: ¥${result.estimatedMonthlyLoss.toLocaleString()}`,
+      `推奨プラン: ${plan.name}（${plan.monthlyPrice.toLocaleString()}円/月）`,
+      '',
+      'スコア内訳:',
+      ...scoreLines,
+      '',
+      '主な問題点:',
+      ...(issueLines.length > 0 ? issueLines : ['  なし']),
+      '',
+      '改善提案:',
+      ...(opportunityLines.length > 0 ? opportunityLines : ['  なし'])
+    ].join('\n');
+  }
+
+  private renderFailure(failure: FailedAnalysis): string {
+    return [
+      `${failure.businessInfo.businessName || failure.url}`,
+      `URL: ${failure.url}`,
+      `結果: アクセスできませんでした（${FAILURE_REASON_LABELS[failure.reason]}${failure.httpStatus ? ` / HTTP ${failure.httpStatus}` : ''}）`,
+      `詳細: ${failure.message}`,
+      `営業メモ: ${FAILURE_SALES_NOTES[failure.reason]}`
+    ].join('\n');
+  }
+}
@@ -0,0 +1,14 @@
+import iconv from 'iconv-lite';
+import { OutputEncoding } from '../types';
+
+// CP932 で表現できない文字（絵文字など）は「?」に置き換わる
+export function encodeOutput(text: string, encoding: OutputEncoding): Buffer {
+  switch (encoding) {
+    case 'utf-8-bom':
+      return Buffer.from('\ufeff' + text, 'utf-8');
+    case 'utf-8':
+      return Buffer.from(text, 'utf-8');
+    case 'cp932':
+      return iconv.encode(text, 'cp932');
+  }
+}
@@ -0,0 +1,77 @@
+import { EventEmitter } from 'events';
+import { AnalysisCategory, AnalysisResult, FailedAnalysis } from '../types';
+
+export interface AnalysisStartedEvent {
+  total: number;
+  startedAt: Date;
+}
+
+export interface AnalyzerFinishedEvent {
+  url: string;
+  category: AnalysisCategory;
+  durationMs: number;
+  failed: boolean;
+  timedOut: boolean;
+}
+
+// completed は成功・失敗を合わせた処理済み件数
+export interface UrlFinishedEvent {
+  url: string;
+  result: AnalysisResult;
+  completed: number;
+  total: number;
+}
+
+export interface UrlFailedEvent {
+  url: string;
+  failure: FailedAnalysis;
+  completed: number;
+  total: number;
+}
+
+export interface ReportWrittenEvent {
+  path: string;
+}
+
+export interface AnalysisEventMap {
+  'started': AnalysisStartedEvent;
+  'analyzer-finished': AnalyzerFinishedEvent;
+  'url-finished': UrlFinishedEvent;
+  'url-failed': UrlFailedEvent;
+  'report-written': ReportWrittenEvent;
+}
+
+export type AnalysisEventName = keyof AnalysisEventMap;
+
+export type AnalysisListeners = {
+  [K in AnalysisEventName]?: (event: AnalysisEventMap[K]) => void;
+};
+
+// イベント名と内容の組み合わせを型で検査する EventEmitter
+export class AnalysisEventEmitter extends EventEmitter {
+  on<K extends AnalysisEventName>(event: K, listener: (event: AnalysisEventMap[K]) => void): this {
+    return super.on(event, listener);
+  }
+
+  once<K extends AnalysisEventName>(event: K, listener: (event: AnalysisEventMap[K]) => void): this {
+    return super.once(event, listener);
+  }
+
+  off<K extends AnalysisEventName>(event: K, listener: (event: AnalysisEventMap[K]) => void): this {
+    return super.off(event, listener);
+  }
+
+  // イベント名をキーにしたリスナーをまとめて登録する
+  subscribe(listeners: AnalysisListeners): this {
+    Object.entries(listeners).forEach(([event, listener]) => {
+      if (listener) {
+        super.on(event, listener);
+      }
+    });
+    return this;
+  }
+
+  emit<K extends AnalysisEventName>(event: K, payload: AnalysisEventMap[K]): boolean {
+    return super.emit(event, payload);
+  }
+}
@@ -0,0 +1,9 @@
+import { AnalysisBatch, AnalysisResult, FailedAnalysis } from '../types';
+
+// 分析結果の出力先。1件ごとに onResult / onFailure、全件の完了後に onComplete が呼ばれる
+export interface AnalysisSink {
+  onResult?(result: AnalysisResult): void | Promise<void>;
+  onFailure?(failure: FailedAnalysis): void | Promise<void>;
+  // ファイルを書き出した場合はそのパスを返す（report-written イベントで通知される）
+  onComplete?(batch: AnalysisBatch): void | string[] | Promise<void | string[]>;
+}
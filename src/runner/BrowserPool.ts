@@ -0,0 +1,113 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import { ProxyRotator } from './ProxyRotator';
+import { BROWSER_LAUNCH_OPTIONS } from '../config/constants';
+
+interface BrowserGeneration {
+  browser: Browser;
+  contextsCreated: number;
+  activeContexts: number;
+  retired: boolean;
+}
+
+export class BrowserPool {
+  private recycleInterval: number;
+  private current: BrowserGeneration | null = null;
+  private launching: Promise<BrowserGeneration> | null = null;
+  private generations = new Set<BrowserGeneration>();
+  // 呼び出し元から渡されたブラウザ（引退させず、close() でも閉じない）
+  private external: BrowserGeneration | null;
+  private proxy?: ProxyRotator;
+
+  // プロキシを複数指定した場合は、ブラウザを再起動するたびに切り替わる
+  constructor(recycleInterval: number, browser?: Browser, proxy?: ProxyRotator) {
+    this.recycleInterval = Math.max(1, recycleInterval);
+    this.proxy = proxy;
+    this.external = browser ?
+      { browser, contextsCreated: 0, activeContexts: 0, retired: false } :
+      null;
+  }
+
+  async newContext(options: BrowserContextOptions = {}): Promise<{ context: BrowserContext; release: () => Promise<void> }> {
+    const generation = await this.getGeneration();
+    generation.contextsCreated++;
+    generation.activeContexts++;
+
+    // 規定数のコンテキストを払い出したブラウザは引退させる（メモリリーク対策）
+    if (generation !== this.external && generation.contextsCreated >= this.recycleInterval) {
+      generation.retired = true;
+      if (this.current === generation) {
+        this.current = null;
+      }
+    }
+
+    let context: BrowserContext;
+    try {
+      context = await generation.browser.newContext(options);
+    } catch (error) {
+      await this.releaseGeneration(generation);
+      throw error;
+    }
+
+    let released = false;
+    const release = async (): Promise<void> => {
+      if (released) return;
+      released = true;
+      await context.close().catch(() => {});
+      await this.releaseGeneration(generation);
+    };
+
+    return { context, release };
+  }
+
+  async close(): Promise<void> {
+    this.current = null;
+    const generations = Array.from(this.generations);
+    this.generations.clear();
+    await Promise.all(generations.map(generation => generation.browser.close().catch(() => {})));
+  }
+
+  private async getGeneration(): Promise<BrowserGeneration> {
+    if (this.external) {
+      return this.external;
+    }
+    if (this.current && !this.current.retired) {
+      return this.current;
+    }
+
+    // 複数ワーカーが同時に要求しても起動は1回にまとめる
+    if (!this.launching) {
+      this.launching = this.launchGeneration().finally(() => {
+        this.launching = null;
+      });
+    }
+
+    return this.launching;
+  }
+
+  private async launchGeneration(): Promise<BrowserGeneration> {
+    const browser = await chromium.launch({
+      ...BROWSER_LAUNCH_OPTIONS,
+      proxy: this.proxy?.launchOptions()
+    });
+
+    const generation: BrowserGeneration = {
+      browser,
+      contextsCreated: 0,
+      activeContexts: 0,
+      retired: false
+    };
+    this.generations.add(generation);
+    this.current = generation;
+    return generation;
+  }
+
+  private async releaseGeneration(generation: BrowserGeneration): Promise<void> {
+    generation.activeContexts--;
+
+    // 引退済みのブラウザは実行中のページがなくなってから閉じる
+    if (generation.retired && generation.activeContexts === 0 && this.generations.has(generation)) {
+      this.generations.delete(generation);
+      await generation.browser.close().catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { Page, Response } from 'playwright';
+import { FailureReason } from '../types';
+
+// ボット対策ページの特徴的な文言
+const BOT_BLOCK_PATTERNS = [
+  /just a moment\.\.\./i,
+  /attention required! \| cloudflare/i,
+  /cf-chl-/i,
+  /challenge-platform/i,
+  /incapsula incident/i,
+  /ddos protection by/i,
+  /access denied/i,
+  /captcha/i
+];
+
+// パーキングドメインの特徴的な文言
+const PARKED_DOMAIN_PATTERNS = [
+  /this domain (is|may be) for sale/i,
+  /buy this domain/i,
+  /domain is parked/i,
+  /sedoparking/i,
+  /parkingcrew/i,
+  /bodis\.com/i,
+  /このドメインは(お名前\.com|ムームードメイン|売却|販売)/,
+  /ドメインパーキング/,
+  /このドメインを購入/
+];
+
+export class NavigationError extends Error {
+  readonly reason: FailureReason;
+  readonly httpStatus?: number;
+
+  constructor(reason: FailureReason, message: string, httpStatus?: number) {
+    super(message);
+    this.name = 'NavigationError';
+    this.reason = reason;
+    this.httpStatus = httpStatus;
+  }
+}
+
+export class FailureClassifier {
+  // ページ遷移後のレスポンスと内容を確認し、分析できない場合は NavigationError を投げる
+  async inspect(page: Page, response: Response | null): Promise<void> {
+    if (!response) {
+      throw new NavigationError('Unknown', 'レスポンスがありません');
+    }
+
+    const status = response.status();
+    const content = await page.content().catch(() => '');
+    const title = await page.title().catch(() => '');
+    const head = `${title}\n${content.slice(0, 20000)}`;
+
+    if ([403, 429, 503].includes(status) && BOT_BLOCK_PATTERNS.some(pattern => pattern.test(head))) {
+      throw new NavigationError('BotBlock', `ボット対策によりアクセスが拒否されました (HTTP ${status})`, status);
+    }
+
+    if (status >= 500) {
+      throw new NavigationError('HTTP5xx', `サーバーエラー (HTTP ${status})`, status);
+    }
+
+    if (status >= 400) {
+      throw new NavigationError('HTTP4xx', `ページにアクセスできません (HTTP ${status})`, status);
+    }
+
+    // ステータス200でもチャレンジページが返る場合がある
+    if (/just a moment\.\.\.|attention required! \| cloudflare/i.test(title)) {
+      throw new NavigationError('BotBlock', `ボット対策ページが表示されました: ${title}`, status);
+    }
+
+    if (PARKED_DOMAIN_PATTERNS.some(pattern => pattern.test(head))) {
+      throw new NavigationError('ParkedDomain', 'パーキングドメインです（サイト未開設）', status);
+    }
+  }
+
+  classify(error: unknown): { reason: FailureReason; message: string; httpStatus?: number } {
+    if (error instanceof NavigationError) {
+      return { reason: error.reason, message: error.message, httpStatus: error.httpStatus };
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const firstLine = message.split('\n')[0];
+
+    if (/ERR_NAME_NOT_RESOLVED|ERR_NAME_RESOLUTION_FAILED|ENOTFOUND|EAI_AGAIN/.test(message)) {
+      return { reason: 'DNS', message: firstLine };
+    }
+
+    if (/ERR_CERT_|ERR_SSL_|SSL_PROTOCOL_ERROR|ERR_BAD_SSL_CLIENT_AUTH_CERT|CERT_HAS_EXPIRED/.test(message)) {
+      return { reason: 'TLS', message: firstLine };
+    }
+
+    if ((error instanceof Error && error.name === 'TimeoutError') ||
+        /ERR_TIMED_OUT|ERR_CONNECTION_TIMED_OUT|Timeout \d+ms exceeded|ETIMEDOUT/.test(message)) {
+      return { reason: 'Timeout', message: firstLine };
+    }
+
+    if (/ERR_CONNECTION_REFUSED|ERR_CONNECTION_RESET|ERR_CONNECTION_CLOSED|ERR_EMPTY_RESPONSE|ERR_ADDRESS_UNREACHABLE|ECONNREFUSED|ECONNRESET/.test(message)) {
+      return { reason: 'ConnectionRefused', message: firstLine };
+    }
+
+    return { reason: 'Unknown', message: firstLine };
+  }
+
+  // 一時的な障害の可能性があるものだけ再試行する
+  isRetryable(reason: FailureReason): boolean {
+    return reason === 'Timeout' || reason === 'ConnectionRefused' || reason === 'HTTP5xx';
+  }
+}
@@ -0,0 +1,76 @@
+import { lookup } from 'dns/promises';
+
+export interface HostThrottleOptions {
+  // 同じIPアドレスへのアクセス間隔（0 の場合は確認しない）
+  ipIntervalMs?: number;
+  // リクエスト数の上限（0 は無制限）
+  requestBudget?: number;
+}
+
+export class RequestBudgetExceededError extends Error {
+  constructor(budget: number) {
+    super(`1回の実行で送信できるリクエストの上限（${budget}件）に達しました`);
+    this.name = 'RequestBudgetExceededError';
+  }
+}
+
+export class HostThrottle {
+  private intervalMs: number;
+  private ipIntervalMs: number;
+  private requestBudget: number;
+  private requestCount = 0;
+  private nextSlots = new Map<string, number>();
+  private addresses = new Map<string, Promise<string | null>>();
+
+  constructor(intervalMs: number, options: HostThrottleOptions = {}) {
+    this.intervalMs = intervalMs;
+    this.ipIntervalMs = options.ipIntervalMs || 0;
+    this.requestBudget = options.requestBudget || 0;
+  }
+
+  get remainingBudget(): number {
+    return this.requestBudget > 0 ? Math.max(0, this.requestBudget - this.requestCount) : Infinity;
+  }
+
+  // 上限に達している場合は待機せずに RequestBudgetExceededError を投げる
+  async wait(url: string): Promise<void> {
+    if (this.remainingBudget === 0) {
+      throw new RequestBudgetExceededError(this.requestBudget);
+    }
+    this.requestCount++;
+
+    const host = this.getHost(url);
+    const address = this.ipIntervalMs > 0 ? await this.resolveAddress(host) : null;
+    const now = Date.now();
+    const hostSlot = Math.max(now, this.nextSlots.get(host) || 0);
+    const slot = address ? Math.max(hostSlot, this.nextSlots.get(address) || 0) : hostSlot;
+
+    // 次の枠を先に確保してから待機する（同一ホスト・同一IPへの同時アクセスを防ぐ）
+    this.nextSlots.set(host, slot + this.intervalMs);
+    if (address) {
+      this.nextSlots.set(address, slot + this.ipIntervalMs);
+    }
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  // 名前解決できない場合はホスト単位の間隔のみ適用する（アクセス自体の失敗はページ遷移で判定する）
+  private resolveAddress(host: string): Promise<string | null> {
+    let address = this.addresses.get(host);
+    if (!address) {
+      address = lookup(host).then(result => `ip:${result.address}`, () => null);
+      this.addresses.set(host, address);
+    }
+    return address;
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch (e) {
+      return url;
+    }
+  }
+}
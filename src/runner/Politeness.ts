@@ -0,0 +1,80 @@
+import axios, { AxiosInstance } from 'axios';
+import { AnalyzerConfig } from '../types';
+import { HostThrottle } from './HostThrottle';
+import { RobotsTxt } from './RobotsTxt';
+import { NavigationError } from './FailureClassifier';
+
+const ROBOTS_TIMEOUT_MS = 10000;
+
+export interface AcquireOptions {
+  // robots.txt 自体の取得など、robots.txt の確認が不要なリクエスト
+  checkRobots?: boolean;
+}
+
+// 対象サイトへのリクエスト（ページ遷移・robots.txt・sitemap.xml など）の前に必ず通す
+export class Politeness {
+  readonly userAgent?: string;
+  private throttle: HostThrottle;
+  private respectRobotsTxt: boolean;
+  private robots = new Map<string, Promise<RobotsTxt>>();
+  private http: AxiosInstance;
+
+  constructor(config: AnalyzerConfig, http: AxiosInstance = axios) {
+    this.http = http;
+    this.userAgent = config.userAgent || undefined;
+    this.respectRobotsTxt = config.respectRobotsTxt;
+    this.throttle = new HostThrottle(config.hostIntervalMs, {
+      ipIntervalMs: config.ipIntervalMs,
+      requestBudget: config.requestBudget
+    });
+  }
+
+  get remainingBudget(): number {
+    return this.throttle.remainingBudget;
+  }
+
+  // アクセス間隔を空けてから戻る。robots.txt で禁止されていれば NavigationError、
+  // リクエスト数の上限に達していれば RequestBudgetExceededError を投げる
+  async acquire(url: string, options: AcquireOptions = {}): Promise<void> {
+    if (this.respectRobotsTxt && options.checkRobots !== false) {
+      const robots = await this.getRobots(new URL(url).origin);
+      if (!robots.isAllowed(url)) {
+        throw new NavigationError('RobotsDisallowed', `robots.txt でアクセスが禁止されています: ${url}`);
+      }
+    }
+
+    await this.throttle.wait(url);
+  }
+
+  private getRobots(origin: string): Promise<RobotsTxt> {
+    let robots = this.robots.get(origin);
+    if (!robots) {
+      robots = this.fetchRobots(origin);
+      this.robots.set(origin, robots);
+    }
+    return robots;
+  }
+
+  // 取得できない・存在しない場合は制限なしとして扱う
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    const robotsUrl = `${origin}/robots.txt`;
+    await this.throttle.wait(robotsUrl);
+
+    try {
+      const response = await this.http.get<string>(robotsUrl, {
+        headers: this.userAgent ? { 'User-Agent': this.userAgent } : undefined,
+        responseType: 'text',
+        timeout: ROBOTS_TIMEOUT_MS,
+        validateStatus: () => true
+      });
+
+      if (response.status >= 200 && response.status < 300 && typeof response.data === 'string') {
+        return RobotsTxt.parse(response.data, this.userAgent);
+      }
+    } catch (e) {
+      return RobotsTxt.allowAll();
+    }
+
+    return RobotsTxt.allowAll();
+  }
+}
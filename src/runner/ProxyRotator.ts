@@ -0,0 +1,132 @@
+import { Agent } from 'http';
+import axios, { AxiosInstance } from 'axios';
+import { LaunchOptions } from 'playwright';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { ProxyConfig } from '../types';
+import { DEFAULT_PROXY_CONFIG } from '../config/constants';
+
+interface ProxyEndpoint {
+  // 認証情報を含まないURL（例: http://proxy.example.co.jp:8080）
+  server: string;
+  username?: string;
+  password?: string;
+}
+
+// 接続先のスキームごとのエージェント（SOCKS プロキシは両方に同じエージェントを使う）
+interface ProxyAgents {
+  http: Agent;
+  https: Agent;
+}
+
+// 設定ファイルの proxy をブラウザと API リクエストの両方に同じように適用する
+export class ProxyRotator {
+  private endpoints: ProxyEndpoint[];
+  private bypass: string[];
+  private index = 0;
+  private agents = new Map<ProxyEndpoint, ProxyAgents>();
+
+  constructor(config: ProxyConfig = DEFAULT_PROXY_CONFIG) {
+    const username = config.username || process.env.PROXY_USERNAME;
+    const password = config.password || process.env.PROXY_PASSWORD;
+
+    this.endpoints = config.servers.map(server => {
+      const url = new URL(server);
+      return {
+        server: `${url.protocol}//${url.host}`,
+        username: url.username ? decodeURIComponent(url.username) : username,
+        password: url.password ? decodeURIComponent(url.password) : password
+      };
+    });
+    this.bypass = config.bypass.map(host => host.trim().toLowerCase()).filter(Boolean);
+  }
+
+  get enabled(): boolean {
+    return this.endpoints.length > 0;
+  }
+
+  // chromium.launch の proxy オプション（呼ぶたびに次のプロキシへ切り替える）
+  launchOptions(): LaunchOptions['proxy'] {
+    const endpoint = this.next();
+    if (!endpoint) {
+      return undefined;
+    }
+
+    return {
+      server: endpoint.server,
+      bypass: this.bypass.length > 0 ? this.bypass.join(',') : undefined,
+      username: endpoint.username,
+      password: endpoint.password
+    };
+  }
+
+  // リクエストごとに次のプロキシを使う axios クライアント（bypass のホストへは直接接続する）
+  createHttpClient(): AxiosInstance {
+    const client = axios.create();
+
+    client.interceptors.request.use(request => {
+      if (!request.url || this.isBypassed(request.url)) {
+        return request;
+      }
+
+      const endpoint = this.next();
+      if (endpoint) {
+        const agents = this.agentsFor(endpoint);
+        request.httpAgent = agents.http;
+        request.httpsAgent = agents.https;
+        request.proxy = false;
+      }
+      return request;
+    });
+
+    return client;
+  }
+
+  isBypassed(url: string): boolean {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch (e) {
+      return false;
+    }
+
+    return this.bypass.some(pattern => {
+      if (pattern === '*') return true;
+      // ".example.co.jp" と "*.example.co.jp" はサブドメインを含めて除外する
+      const domain = pattern.replace(/^\*?\./, '');
+      return host === domain || (domain !== pattern && host.endsWith(`.${domain}`));
+    });
+  }
+
+  private next(): ProxyEndpoint | null {
+    if (this.endpoints.length === 0) {
+      return null;
+    }
+
+    const endpoint = this.endpoints[this.index % this.endpoints.length];
+    this.index++;
+    return endpoint;
+  }
+
+  // HTTP プロキシは、http の接続先には転送（絶対URIのリクエスト）、https の接続先には CONNECT によるトンネルを使う
+  private agentsFor(endpoint: ProxyEndpoint): ProxyAgents {
+    let agents = this.agents.get(endpoint);
+    if (!agents) {
+      const url = new URL(endpoint.server);
+      if (endpoint.username) {
+        url.username = encodeURIComponent(endpoint.username);
+        url.password = encodeURIComponent(endpoint.password || '');
+      }
+
+      if (url.protocol.startsWith('socks')) {
+        const agent = new SocksProxyAgent(url);
+        agents = { http: agent, https: agent };
+      } else {
+        agents = { http: new HttpProxyAgent(url), https: new HttpsProxyAgent(url) };
+      }
+      this.agents.set(endpoint, agents);
+    }
+    return agents;
+  }
+}
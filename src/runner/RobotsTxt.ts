@@ -0,0 +1,86 @@
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+// robots.txt のうち、自分の User-Agent に該当するグループの Allow / Disallow だけを扱う
+export class RobotsTxt {
+  private rules: RobotsRule[];
+
+  private constructor(rules: RobotsRule[]) {
+    this.rules = rules;
+  }
+
+  // 取得できなかった場合などはすべて許可する
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([]);
+  }
+
+  // User-Agent 名を含むグループがあればそれを、なければ * のグループを使う
+  static parse(text: string, userAgent = ''): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // ルールの後に現れた User-agent は新しいグループの始まり
+        if (!current || current.rules.length > 0) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if ((key === 'allow' || key === 'disallow') && current) {
+        // 空の Disallow は「すべて許可」
+        if (value) {
+          current.rules.push({ allow: key === 'allow', pattern: value });
+        }
+      }
+    }
+
+    const agent = userAgent.toLowerCase();
+    const named = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+    const selected = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+
+    return new RobotsTxt(selected.flatMap(group => group.rules));
+  }
+
+  // 最も長く一致したルールに従う（同じ長さなら Allow を優先）
+  isAllowed(url: string): boolean {
+    const { pathname, search } = new URL(url);
+    const path = `${pathname}${search}`;
+    let matched: RobotsRule | null = null;
+
+    for (const rule of this.rules) {
+      if (!this.matches(rule.pattern, path)) continue;
+      if (!matched ||
+          rule.pattern.length > matched.pattern.length ||
+          (rule.pattern.length === matched.pattern.length && rule.allow)) {
+        matched = rule;
+      }
+    }
+
+    return !matched || matched.allow;
+  }
+
+  // * は任意の文字列、末尾の $ はパスの終端
+  private matches(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+  }
+}
@@ -0,0 +1,184 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AnalysisResult, FailedAnalysis } from '../types';
+import { FILE_PATHS } from '../config/constants';
+import { AnalysisSink } from './AnalysisSink';
+
+export interface RunMeta {
+  runId: string;
+  inputPath: string;
+  startedAt: string;
+}
+
+type JournalEntry =
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'failure'; failure: FailedAnalysis };
+
+// 分析の出力先として渡すと、完了した結果を1件ずつ追記する
+export class RunJournal implements AnalysisSink {
+  readonly meta: RunMeta;
+  private journalPath: string;
+
+  private constructor(meta: RunMeta) {
+    this.meta = meta;
+    this.journalPath = join(RunJournal.getRunDir(meta.runId), 'results.jsonl');
+  }
+
+  get runId(): string {
+    return this.meta.runId;
+  }
+
+  // 実行ごとのログ（JSON Lines。各行に runId・url が付く）
+  get logPath(): string {
+    return join(RunJournal.getRunDir(this.runId), 'run.log.jsonl');
+  }
+
+  // URLごとのデバッグ情報の保存先
+  get debugDir(): string {
+    return join(RunJournal.getRunDir(this.runId), 'debug');
+  }
+
+  static create(inputPath: string): RunJournal {
+    const runId = RunJournal.generateRunId();
+    const runDir = RunJournal.getRunDir(runId);
+    mkdirSync(runDir, { recursive: true });
+
+    const meta: RunMeta = {
+      runId,
+      inputPath,
+      startedAt: new Date().toISOString()
+    };
+    writeFileSync(join(runDir, 'meta.json'), JSON.stringify(meta, null, 2), 'utf-8');
+
+    return new RunJournal(meta);
+  }
+
+  static open(runId: string): RunJournal {
+    const metaPath = join(RunJournal.getRunDir(runId), 'meta.json');
+    if (!existsSync(metaPath)) {
+      throw new Error(`実行ID ${runId} のジャーナルが見つかりません: ${metaPath}`);
+    }
+
+    const meta: RunMeta = JSON.parse(readFileSync(metaPath, 'utf-8'));
+    const journal = new RunJournal(meta);
+    journal.terminateLastLine();
+    return journal;
+  }
+
+  append(result: AnalysisResult): void {
+    this.writeEntry({ type: 'result', result });
+  }
+
+  appendFailure(failure: FailedAnalysis): void {
+    this.writeEntry({ type: 'failure', failure });
+  }
+
+  onResult(result: AnalysisResult): void {
+    this.append(result);
+  }
+
+  onFailure(failure: FailedAnalysis): void {
+    this.appendFailure(failure);
+  }
+
+  load(): AnalysisResult[] {
+    const results: AnalysisResult[] = [];
+    for (const entry of this.readLatestEntries().values()) {
+      if (entry.type === 'result') {
+        results.push(this.reviveDates(entry.result));
+      }
+    }
+    return results;
+  }
+
+  loadFailures(): FailedAnalysis[] {
+    const failures: FailedAnalysis[] = [];
+    for (const entry of this.readLatestEntries().values()) {
+      if (entry.type === 'failure') {
+        failures.push({ ...entry.failure, failedAt: new Date(entry.failure.failedAt) });
+      }
+    }
+    return failures;
+  }
+
+  // 再開時は分析に成功したURLのみスキップする（失敗したURLは再試行）
+  getAnalyzedUrls(): Set<string> {
+    return new Set(this.load().map(result => result.url));
+  }
+
+  private writeEntry(entry: JournalEntry): void {
+    appendFileSync(this.journalPath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  private readLatestEntries(): Map<string, JournalEntry> {
+    const entries = new Map<string, JournalEntry>();
+    if (!existsSync(this.journalPath)) {
+      return entries;
+    }
+
+    const lines = readFileSync(this.journalPath, 'utf-8').split('\n');
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (e) {
+        // 中断時に書きかけになった行は読み飛ばす
+        continue;
+      }
+
+      // 同じURLが複数回記録されている場合は新しい記録を優先
+      const url = entry.type === 'result' ? entry.result.url : entry.failure.url;
+      entries.delete(url);
+      entries.set(url, entry);
+    }
+
+    return entries;
+  }
+
+  private reviveDates(result: AnalysisResult): AnalysisResult {
+    const revived: AnalysisResult = {
+      ...result,
+      failedAnalyzers: result.failedAnalyzers || [],
+      analyzedAt: new Date(result.analyzedAt)
+    };
+
+    if (result.enrichment?.lastUpdated) {
+      revived.enrichment = {
+        ...result.enrichment,
+        lastUpdated: new Date(result.enrichment.lastUpdated)
+      };
+    }
+
+    return revived;
+  }
+
+  private terminateLastLine(): void {
+    if (!existsSync(this.journalPath)) return;
+
+    // 書きかけの行に追記がつながらないよう改行で閉じておく
+    const content = readFileSync(this.journalPath, 'utf-8');
+    if (content.length > 0 && !content.endsWith('\n')) {
+      appendFileSync(this.journalPath, '\n', 'utf-8');
+    }
+  }
+
+  private static getRunDir(runId: string): string {
+    return join(FILE_PATHS.RUNS_DIR, runId);
+  }
+
+  private static generateRunId(): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const base = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-` +
+      `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+
+    let runId = base;
+    for (let suffix = 2; existsSync(RunJournal.getRunDir(runId)); suffix++) {
+      runId = `${base}-${suffix}`;
+    }
+    return runId;
+  }
+}
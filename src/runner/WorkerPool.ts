@@ -0,0 +1,96 @@
+interface PoolRun<T> {
+  items: T[];
+  worker: (item: T, index: number) => Promise<void>;
+  signal?: AbortSignal;
+  nextIndex: number;
+  running: number;
+  failed: boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// 同時実行数は run() の呼び出しをまたいで共有する。複数の run() が重なった場合は、それぞれの項目を交互に処理する
+export class WorkerPool<T> {
+  private concurrency: number;
+  private runs: PoolRun<T>[] = [];
+  private running = 0;
+  // 次に項目を取り出す run の位置（runs 内）
+  private turn = 0;
+
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  // signal が中断されると新しい項目は開始せず、実行中の項目の完了を待って戻る
+  run(items: T[], worker: (item: T, index: number) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const run: PoolRun<T> = { items, worker, signal, nextIndex: 0, running: 0, failed: false, resolve, reject };
+      this.runs.push(run);
+      signal?.addEventListener('abort', () => this.settleIfDone(run), { once: true });
+      this.settleIfDone(run);
+      this.dispatch();
+    });
+  }
+
+  // 空いた枠に、各 run から順番に次の項目を割り当てる
+  private dispatch(): void {
+    while (this.running < this.concurrency) {
+      const run = this.nextRun();
+      if (!run) return;
+
+      const index = run.nextIndex++;
+      run.running++;
+      this.running++;
+      run.worker(run.items[index], index)
+        .catch(error => {
+          // 失敗した run には新しい項目を割り当てない（実行中の項目はそのまま完了させる）
+          if (!run.failed) {
+            run.failed = true;
+            this.remove(run);
+            run.reject(error);
+          }
+        })
+        .finally(() => {
+          run.running--;
+          this.running--;
+          this.settleIfDone(run);
+          this.dispatch();
+        });
+    }
+  }
+
+  private nextRun(): PoolRun<T> | null {
+    for (let offset = 0; offset < this.runs.length; offset++) {
+      const position = (this.turn + offset) % this.runs.length;
+      const run = this.runs[position];
+      if (this.hasNext(run)) {
+        this.turn = position + 1;
+        return run;
+      }
+    }
+    return null;
+  }
+
+  private hasNext(run: PoolRun<T>): boolean {
+    return !run.failed && !run.signal?.aborted && run.nextIndex < run.items.length;
+  }
+
+  private settleIfDone(run: PoolRun<T>): void {
+    if (run.failed || run.running > 0 || this.hasNext(run) || !this.remove(run)) {
+      return;
+    }
+    run.resolve();
+  }
+
+  private remove(run: PoolRun<T>): boolean {
+    const position = this.runs.indexOf(run);
+    if (position === -1) {
+      return false;
+    }
+    this.runs.splice(position, 1);
+    if (position < this.turn) {
+      this.turn--;
+    }
+    return true;
+  }
+}
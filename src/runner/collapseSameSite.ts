@@ -0,0 +1,27 @@
+import { AnalysisResult } from '../types';
+import { canonicalizeUrl } from '../input/canonicalUrl';
+
+// リダイレクト後に同じURLへ到達した結果を1件にまとめる（先に出現した結果を残し、他の事業者名は別名に加える）
+export function collapseSameSite(results: AnalysisResult[]): AnalysisResult[] {
+  const kept = new Map<string, AnalysisResult>();
+
+  for (const result of results) {
+    const key = canonicalizeUrl(result.finalUrl || result.url);
+    const existing = kept.get(key);
+    if (!existing) {
+      kept.set(key, result);
+      continue;
+    }
+
+    const names = [result.businessInfo.businessName, ...(result.businessInfo.aliases || [])];
+    const aliases = [...(existing.businessInfo.aliases || [])];
+    names.forEach(name => {
+      if (name && name !== existing.businessInfo.businessName && !aliases.includes(name)) {
+        aliases.push(name);
+      }
+    });
+    kept.set(key, { ...existing, businessInfo: { ...existing.businessInfo, aliases } });
+  }
+
+  return Array.from(kept.values());
+}
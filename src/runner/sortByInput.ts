@@ -0,0 +1,8 @@
+import { BusinessInfo } from '../types';
+
+// ジャーナルには完了順に記録されるため、入力の行順に並べ直す（入力にないURLは記録順のまま末尾に置く）
+export function sortByInput<T extends { url: string }>(outcomes: T[], businesses: BusinessInfo[]): T[] {
+  const order = new Map(businesses.map((business, index) => [business.url, index]));
+  const position = (outcome: T) => order.get(outcome.url) ?? businesses.length;
+  return [...outcomes].sort((a, b) => position(a) - position(b));
+}
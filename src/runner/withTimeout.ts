@@ -0,0 +1,20 @@
+export class TimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${label}が${Math.round(timeoutMs / 1000)}秒以内に完了しませんでした`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(label, timeoutMs)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
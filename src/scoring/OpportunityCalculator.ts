@@ -1,20 +1,10 @@
-import { Opportunity } from '../types';
+import { Opportunity, CategoryScores, AnalysisCategory, IndustryConfig } from '../types';
 import { INDUSTRY_CONFIGS } from '../config/constants';
 
+// 分析に失敗したカテゴリの結果は null
 interface AnalysisData {
-  scores: {
-    total: number;
-    performance: number;
-    mobile: number;
-    seo: number;
-    conversion: number;
-    content: number;
-  };
-  performanceResult: { opportunities: Opportunity[] };
-  seoResult: { opportunities: Opportunity[] };
-  mobileResult: { opportunities: Opportunity[] };
-  conversionResult: { opportunities: Opportunity[] };
-  contentResult: { opportunities: Opportunity[] };
+  scores: CategoryScores;
+  categoryResults: Partial<Record<AnalysisCategory, { opportunities: Opportunity[] } | null>>;
 }
 
 export class OpportunityCalculator {
@@ -24,13 +14,8 @@ export class OpportunityCalculator {
       INDUSTRY_CONFIGS.default;
 
     // 各分析結果から機会を収集
-    const allOpportunities: Opportunity[] = [
-      ...data.performanceResult.opportunities,
-      ...data.seoResult.opportunities,
-      ...data.mobileResult.opportunities,
-      ...data.conversionResult.opportunities,
-      ...data.contentResult.opportunities
-    ];
+    const allOpportunities: Opportunity[] = Object.values(data.categoryResults)
+      .flatMap(result => result?.opportunities || []);
 
     // 業種別の調整
     const adjustedOpportunities = allOpportunities.map(opp => {
@@ -68,7 +53,7 @@ export class OpportunityCalculator {
     return Math.round(baseRevenue * adjustmentFactor);
   }
 
-  private generateSyntheticOpportunities(data: AnalysisData, industryConfig: any): Opportunity[] {
+  private generateSyntheticOpportunities(data: AnalysisData, industryConfig: IndustryConfig): Opportunity[] {
     const opportunities: Opportunity[] = [];
 
     // 総合スコアが低い場合の全面リニューアル提案
@@ -84,7 +69,7 @@ export class OpportunityCalculator {
     }
 
     // パフォーマンスとモバイルの両方が低い場合
-    if (data.scores.performance < 50 && data.scores.mobile < 50) {
+    if (this.isBelow(data.scores.performance, 50) && this.isBelow(data.scores.mobile, 50)) {
       opportunities.push({
         title: 'モバイルファースト設計への移行',
         description: 'スマートフォンユーザーを最優先した高速サイトの構築',
@@ -96,7 +81,7 @@ export class OpportunityCalculator {
     }
 
     // SEOとコンテンツの両方が低い場合
-    if (data.scores.seo < 50 && data.scores.content < 50) {
+    if (this.isBelow(data.scores.seo, 50) && this.isBelow(data.scores.content, 50)) {
       opportunities.push({
         title: 'コンテンツマーケティング戦略の導入',
         description: 'SEOに強い有益なコンテンツで集客力を強化',
@@ -108,7 +93,7 @@ export class OpportunityCalculator {
     }
 
     // コンバージョンが特に低い場合
-    if (data.scores.conversion < 40) {
+    if (this.isBelow(data.scores.conversion, 40)) {
       opportunities.push({
         title: 'コンバージョン最適化（CRO）プログラム',
         description: 'A/Bテストとユーザー行動分析で成約率を倍増',
@@ -137,21 +122,26 @@ export class OpportunityCalculator {
     return Array.from(seen.values());
   }
 
-  private recalculatePriorities(opportunities: Opportunity[], scores: any): Opportunity[] {
+  // 分析に失敗したカテゴリ（null）は低スコア扱いしない
+  private isBelow(score: number | null, threshold: number): boolean {
+    return score !== null && score < threshold;
+  }
+
+  private recalculatePriorities(opportunities: Opportunity[], scores: CategoryScores): Opportunity[] {
     return opportunities.map(opp => {
       let priorityBoost = 0;
 
       // スコアが低い分野に関連する機会の優先度を上げる
-      if (opp.title.includes('パフォーマンス') && scores.performance < 50) {
+      if (opp.title.includes('パフォーマンス') && this.isBelow(scores.performance, 50)) {
         priorityBoost += 2;
       }
-      if (opp.title.includes('モバイル') && scores.mobile < 50) {
+      if (opp.title.includes('モバイル') && this.isBelow(scores.mobile, 50)) {
         priorityBoost += 2;
       }
-      if (opp.title.includes('SEO') && scores.seo < 50) {
+      if (opp.title.includes('SEO') && this.isBelow(scores.seo, 50)) {
         priorityBoost += 2;
       }
-      if (opp.title.includes('コンバージョン') && scores.conversion < 50) {
+      if (opp.title.includes('コンバージョン') && this.isBelow(scores.conversion, 50)) {
         priorityBoost += 2;
       }
 
@@ -1,89 +1,86 @@
-import { ScoringWeights } from '../types';
+import { ScoringWeights, PriorityThresholds, CategoryScores, AnalysisCategory } from '../types';
 import { 
   DEFAULT_SCORING_WEIGHTS, 
   INDUSTRY_CONFIGS, 
   PRIORITY_THRESHOLDS,
-  PAGEYOU_PLANS 
+  PAGEYOU_PLANS
 } from '../config/constants';
+import { analyzerRegistry } from '../analyzers/AnalyzerRegistry';
 
+// 分析に失敗したカテゴリは null
 interface AnalysisResults {
-  performance: { score: number };
-  seo: { score: number };
-  mobile: { score: number };
-  conversion: { score: number };
-  content: { score: number };
+  categories: Partial<Record<AnalysisCategory, { score: number } | null>>;
   isHttps: boolean;
 }
 
+// HTTPS未対応の場合の減点
+const HTTPS_PENALTIES: Partial<Record<AnalysisCategory, number>> = {
+  performance: 10,
+  seo: 15
+};
+
 export class ScoringEngine {
   private defaultWeights: ScoringWeights;
-
-  constructor() {
-    this.defaultWeights = DEFAULT_SCORING_WEIGHTS;
+  private priorityThresholds: PriorityThresholds;
+
+  constructor(
+    weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+    priorityThresholds: PriorityThresholds = PRIORITY_THRESHOLDS
+  ) {
+    this.defaultWeights = weights;
+    this.priorityThresholds = priorityThresholds;
   }
 
   calculateScores(
     results: AnalysisResults,
     industry?: string
-  ): {
-    total: number;
-    performance: number;
-    mobile: number;
-    seo: number;
-    conversion: number;
-    content: number;
-  } {
+  ): CategoryScores {
     // 業種別の重み付けを取得
     const industryConfig = industry ? 
       INDUSTRY_CONFIGS[industry] || INDUSTRY_CONFIGS.default :
       INDUSTRY_CONFIGS.default;
 
-    // 基本スコアを取得
-    const baseScores = {
-      performance: results.performance.score,
-      mobile: results.mobile.score,
-      seo: results.seo.score,
-      conversion: results.conversion.score,
-      content: results.content.score
+    // 業種別の重み付けを適用した個別スコア
+    const scores: CategoryScores = {
+      total: 0,
+      performance: null,
+      mobile: null,
+      seo: null,
+      conversion: null,
+      content: null
     };
 
-    // HTTPS対応による加点/減点
-    if (!results.isHttps) {
-      baseScores.performance = Math.max(0, baseScores.performance - 10);
-      baseScores.seo = Math.max(0, baseScores.seo - 15);
+    // 総合スコアの計算（成功したカテゴリのみで重み付け平均）
+    let weightedSum = 0;
+    let weightTotal = 0;
+
+    for (const [category, result] of Object.entries(results.categories)) {
+      if (!result) {
+        scores[category] = null;
+        continue;
+      }
+
+      // HTTPS対応による減点
+      const baseScore = results.isHttps ?
+        result.score :
+        Math.max(0, result.score - (HTTPS_PENALTIES[category] ?? 0));
+
+      const weight = this.weightOf(category);
+      const adjustedScore = Math.round(baseScore * (industryConfig.weightMultipliers[category] ?? 1));
+      weightedSum += adjustedScore * weight;
+      weightTotal += weight;
+      scores[category] = Math.min(100, Math.max(0, adjustedScore));
     }
 
-    // 業種別の重み付けを適用した個別スコア
-    const adjustedScores = {
-      performance: Math.round(baseScores.performance * industryConfig.weightMultipliers.performance),
-      mobile: Math.round(baseScores.mobile * industryConfig.weightMultipliers.mobile),
-      seo: Math.round(baseScores.seo * industryConfig.weightMultipliers.seo),
-      conversion: Math.round(baseScores.conversion * industryConfig.weightMultipliers.conversion),
-      content: Math.round(baseScores.content * industryConfig.weightMultipliers.content)
-    };
+    const totalScore = weightTotal > 0 ? Math.round(weightedSum / weightTotal) : 0;
+    scores.total = Math.min(100, Math.max(0, totalScore));
 
-    // 総合スコアの計算（重み付け平均）
-    const totalScore = Math.round(
-      (adjustedScores.performance * this.defaultWeights.performance +
-       adjustedScores.mobile * this.defaultWeights.mobile +
-       adjustedScores.seo * this.defaultWeights.seo +
-       adjustedScores.conversion * this.defaultWeights.conversion +
-       adjustedScores.content * this.defaultWeights.content) /
-      (this.defaultWeights.performance +
-       this.defaultWeights.mobile +
-       this.defaultWeights.seo +
-       this.defaultWeights.conversion +
-       this.defaultWeights.content)
-    );
+    return scores;
+  }
 
-    return {
-      total: Math.min(100, Math.max(0, totalScore)),
-      performance: Math.min(100, Math.max(0, adjustedScores.performance)),
-      mobile: Math.min(100, Math.max(0, adjustedScores.mobile)),
-      seo: Math.min(100, Math.max(0, adjustedScores.seo)),
-      conversion: Math.min(100, Math.max(0, adjustedScores.conversion)),
-      content: Math.min(100, Math.max(0, adjustedScores.content))
-    };
+  // 設定にない追加カテゴリはアナライザーの既定の重みを使う
+  private weightOf(category: AnalysisCategory): number {
+    return this.defaultWeights[category] ?? analyzerRegistry.get(category)?.weight ?? 0;
   }
 
   recommendPlan(totalScore: number): 'Simple' | 'Standard' | 'Premium' {
@@ -98,14 +95,14 @@ export class ScoringEngine {
 
   determinePriority(totalScore: number, estimatedMonthlyLoss: number): 'High' | 'Medium' | 'Low' {
     // スコアが低い、または月間損失が大きい場合は高優先度
-    if (totalScore <= PRIORITY_THRESHOLDS.High.scoreMax || 
-        estimatedMonthlyLoss >= PRIORITY_THRESHOLDS.High.monthlyLossMin) {
+    if (totalScore <= this.priorityThresholds.High.scoreMax || 
+        estimatedMonthlyLoss >= this.priorityThresholds.High.monthlyLossMin) {
       return 'High';
     }
     
     // 中程度のスコア、または中程度の月間損失の場合は中優先度
-    if (totalScore <= PRIORITY_THRESHOLDS.Medium.scoreMax || 
-        estimatedMonthlyLoss >= PRIORITY_THRESHOLDS.Medium.monthlyLossMin) {
+    if (totalScore <= this.priorityThresholds.Medium.scoreMax || 
+        estimatedMonthlyLoss >= this.priorityThresholds.Medium.monthlyLossMin) {
       return 'Medium';
     }
     
@@ -175,48 +172,21 @@ export class ScoringEngine {
     }
   }
 
-  generateScoreBreakdown(scores: {
-    total: number;
-    performance: number;
-    mobile: number;
-    seo: number;
-    conversion: number;
-    content: number;
-  }): Array<{ category: string; score: number; weight: number; contribution: number }> {
-    const weights = this.defaultWeights;
-    const totalWeight = Object.values(weights).reduce((sum, w) => sum + w, 0);
-
-    return [
-      {
-        category: 'パフォーマンス',
-        score: scores.performance,
-        weight: weights.performance,
-        contribution: Math.round((scores.performance * weights.performance) / totalWeight)
-      },
-      {
-        category: 'モバイル対応',
-        score: scores.mobile,
-        weight: weights.mobile,
-        contribution: Math.round((scores.mobile * weights.mobile) / totalWeight)
-      },
-      {
-        category: 'SEO',
-        score: scores.seo,
-        weight: weights.seo,
-        contribution: Math.round((scores.seo * weights.seo) / totalWeight)
-      },
-      {
-        category: 'コンバージョン',
-        score: scores.conversion,
-        weight: weights.conversion,
-        contribution: Math.round((scores.conversion * weights.conversion) / totalWeight)
-      },
-      {
-        category: 'コンテンツ',
-        score: scores.content,
-        weight: weights.content,
-        contribution: Math.round((scores.content * weights.content) / totalWeight)
-      }
-    ];
+  generateScoreBreakdown(scores: CategoryScores): Array<{ category: string; score: number; weight: number; contribution: number }> {
+    // 分析に失敗したカテゴリは内訳から除外し、残りの重みで寄与度を計算
+    const available = Object.keys(scores)
+      .filter(category => category !== 'total' && scores[category] !== null && scores[category] !== undefined);
+    const totalWeight = available.reduce((sum, category) => sum + this.weightOf(category), 0);
+
+    return available.map(category => {
+      const score = scores[category] as number;
+      const weight = this.weightOf(category);
+      return {
+        category: analyzerRegistry.label(category),
+        score,
+        weight,
+        contribution: totalWeight > 0 ? Math.round((score * weight) / totalWeight) : 0
+      };
+    });
   }
 }
\ No newline at end of file
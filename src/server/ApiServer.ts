@@ -0,0 +1,290 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createReadStream, existsSync } from 'fs';
+import { basename } from 'path';
+import { AnalysisBatch, AppConfig, BusinessInfo } from '../types';
+import { ProspectAnalyzer } from '../ProspectAnalyzer';
+import { CSVReporter } from '../reporting/CSVReporter';
+import { MarkdownReporter } from '../reporting/MarkdownReporter';
+import { withScheme } from '../input/canonicalUrl';
+import { Job, JobQueue } from './JobQueue';
+import { Logger, createConsoleLogger } from '../logging/Logger';
+
+// リクエストボディの上限（1MB）
+const MAX_BODY_BYTES = 1024 * 1024;
+
+type AnalysisJob = Job<BusinessInfo[], AnalysisBatch>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+class HttpError extends Error {
+  readonly statusCode: number;
+  readonly details?: string[];
+
+  constructor(statusCode: number, message: string, details?: string[]) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+export class ApiServer {
+  private server: Server;
+  private queue: JobQueue<BusinessInfo[], AnalysisBatch>;
+  private csvReporter: CSVReporter;
+  private markdownReporter: MarkdownReporter;
+  private logger: Logger;
+
+  constructor(analyzer: ProspectAnalyzer, config: AppConfig, logger: Logger = createConsoleLogger()) {
+    this.logger = logger;
+    this.csvReporter = new CSVReporter(config.reporting);
+    this.markdownReporter = new MarkdownReporter(config.reporting, config.analysis);
+
+    // ジョブは受け付けたらすぐに開始する。URLは ProspectAnalyzer の共有の同時実行枠でジョブ間で交互に分析され、
+    // ブラウザとホストごとのアクセス間隔も共有される（大きなジョブが後続のジョブを待たせない）
+    this.queue = new JobQueue(async job => {
+      const batch: AnalysisBatch = { results: [], failures: [] };
+      job.output = batch;
+
+      // 処理中でも途中経過を返せるよう、結果は1件ずつ job.output に積む
+      const completed = await analyzer.analyzeBusinesses(job.input, {
+        // 同時に実行される別のジョブと同じURLでも上書きし合わないよう、ジョブごとのフォルダに保存する
+        screenshotSubdir: job.id,
+        sinks: [{
+          onResult: result => {
+            batch.results.push(result);
+            job.progress.completed++;
+          },
+          onFailure: failure => {
+            batch.failures.push(failure);
+            job.progress.completed++;
+          }
+        }]
+      });
+      // 完了後はリダイレクト先が同じサイトを1件にまとめた結果を返す
+      batch.results = completed.results;
+
+      this.logger.info(`ジョブ完了: ${job.id}（${batch.results.length}件分析、${batch.failures.length}件アクセス不可）`);
+      return batch;
+    }, Number.POSITIVE_INFINITY);
+
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => this.sendError(res, error));
+    });
+  }
+
+  listen(port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (segments[0] !== 'analyses') {
+      throw new HttpError(404, 'エンドポイントが見つかりません');
+    }
+
+    // /analyses
+    if (segments.length === 1) {
+      if (req.method === 'POST') {
+        const businesses = this.parseBusinesses(await this.readJsonBody(req));
+        const job = this.queue.enqueue(businesses, businesses.length);
+        this.logger.info(`ジョブ受付: ${job.id}（${businesses.length}件）`);
+        this.sendJson(res, 202, this.serializeJob(job, false));
+        return;
+      }
+      if (req.method === 'GET') {
+        this.sendJson(res, 200, { analyses: this.queue.list().map(job => this.serializeJob(job, false)) });
+        return;
+      }
+      throw new HttpError(405, `${req.method} は使用できません`);
+    }
+
+    if (req.method !== 'GET') {
+      throw new HttpError(405, `${req.method} は使用できません`);
+    }
+
+    const job = this.queue.get(segments[1]);
+    if (!job) {
+      throw new HttpError(404, `ジョブ ${segments[1]} が見つかりません`);
+    }
+
+    // /analyses/:id
+    if (segments.length === 2) {
+      this.sendJson(res, 200, this.serializeJob(job, true));
+      return;
+    }
+
+    // /analyses/:id/report.csv, /analyses/:id/report.md
+    if (segments.length === 3 && (segments[2] === 'report.csv' || segments[2] === 'report.md')) {
+      const batch = this.requireCompleted(job);
+      if (segments[2] === 'report.csv') {
+        this.sendText(res, 'text/csv; charset=utf-8', this.csvReporter.render([...batch.results]));
+      } else {
+        this.sendText(res, 'text/markdown; charset=utf-8', this.markdownReporter.render([...batch.results], batch.failures));
+      }
+      return;
+    }
+
+    // /analyses/:id/screenshots/:file
+    if (segments.length === 4 && segments[2] === 'screenshots') {
+      this.sendScreenshot(res, job, segments[3]);
+      return;
+    }
+
+    throw new HttpError(404, 'エンドポイントが見つかりません');
+  }
+
+  private parseBusinesses(body: unknown): BusinessInfo[] {
+    // 配列そのもの、または { businesses: [...] } を受け付ける
+    const entries: unknown = Array.isArray(body) ? body : isRecord(body) ? body.businesses : undefined;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new HttpError(400, 'BusinessInfo の配列を指定してください');
+    }
+
+    const errors: string[] = [];
+    const businesses: BusinessInfo[] = [];
+
+    entries.forEach((entry: unknown, index: number) => {
+      if (!isRecord(entry) || typeof entry.url !== 'string' || !entry.url.trim()) {
+        errors.push(`[${index}] url が指定されていません`);
+        return;
+      }
+
+      const url = withScheme(entry.url);
+      try {
+        new URL(url);
+      } catch (e) {
+        errors.push(`[${index}] URLの形式が不正です: ${entry.url}`);
+        return;
+      }
+
+      businesses.push({
+        url,
+        businessName: typeof entry.businessName === 'string' ? entry.businessName : undefined,
+        industry: typeof entry.industry === 'string' ? entry.industry : undefined,
+        location: typeof entry.location === 'string' ? entry.location : undefined
+      });
+    });
+
+    if (errors.length > 0) {
+      throw new HttpError(400, 'リクエストが不正です', errors);
+    }
+
+    return businesses;
+  }
+
+  private readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'リクエストボディが大きすぎます'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+        } catch (e) {
+          reject(new HttpError(400, 'JSONとして読み込めません'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private requireCompleted(job: AnalysisJob): AnalysisBatch {
+    if (job.status === 'failed') {
+      throw new HttpError(409, `ジョブが失敗しました: ${job.error}`);
+    }
+    if (job.status !== 'completed') {
+      throw new HttpError(409, 'ジョブはまだ完了していません');
+    }
+    return job.output!;
+  }
+
+  private sendScreenshot(res: ServerResponse, job: AnalysisJob, fileName: string): void {
+    // ジョブの結果に含まれるスクリーンショットのみ返す（任意のファイルを読ませない）
+    const path = (job.output?.results || [])
+      .flatMap(result => [result.screenshots.desktop, result.screenshots.mobile])
+      .find(screenshot => screenshot && basename(screenshot) === fileName);
+
+    if (!path || !existsSync(path)) {
+      throw new HttpError(404, `スクリーンショット ${fileName} が見つかりません`);
+    }
+
+    res.writeHead(200, { 'Content-Type': 'image/png' });
+    createReadStream(path).pipe(res);
+  }
+
+  private serializeJob(job: AnalysisJob, includeResults: boolean): Record<string, unknown> {
+    const base = `/analyses/${job.id}`;
+    const serialized: Record<string, unknown> = {
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      queuePosition: job.status === 'queued' ? this.queue.positionOf(job.id) : undefined,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      error: job.error,
+      links: {
+        self: base,
+        reportCsv: `${base}/report.csv`,
+        reportMarkdown: `${base}/report.md`
+      }
+    };
+
+    if (includeResults) {
+      serialized.results = (job.output?.results || []).map(result => ({
+        ...result,
+        screenshots: {
+          desktop: result.screenshots.desktop && `${base}/screenshots/${basename(result.screenshots.desktop)}`,
+          mobile: result.screenshots.mobile && `${base}/screenshots/${basename(result.screenshots.mobile)}`
+        }
+      }));
+      serialized.failures = job.output?.failures || [];
+    }
+
+    return serialized;
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendText(res: ServerResponse, contentType: string, body: string): void {
+    res.writeHead(200, { 'Content-Type': contentType });
+    res.end(body);
+  }
+
+  private sendError(res: ServerResponse, error: unknown): void {
+    if (error instanceof HttpError) {
+      this.sendJson(res, error.statusCode, { error: error.message, details: error.details });
+      return;
+    }
+
+    this.logger.error('APIエラー:', error);
+    this.sendJson(res, 500, { error: '内部エラーが発生しました' });
+  }
+}
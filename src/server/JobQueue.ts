@@ -0,0 +1,100 @@
+import { randomUUID } from 'crypto';
+import { errorMessage } from '../logging/Logger';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job<TInput, TOutput> {
+  id: string;
+  status: JobStatus;
+  input: TInput;
+  output?: TOutput;
+  error?: string;
+  progress: { completed: number; total: number };
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export type JobProcessor<TInput, TOutput> = (job: Job<TInput, TOutput>) => Promise<TOutput>;
+
+// 受け付けたジョブを順番に処理する（同時に処理するジョブ数は concurrency まで）
+export class JobQueue<TInput, TOutput> {
+  private jobs = new Map<string, Job<TInput, TOutput>>();
+  private pending: Job<TInput, TOutput>[] = [];
+  private running = 0;
+  private processor: JobProcessor<TInput, TOutput>;
+  private concurrency: number;
+  private maxRetainedJobs: number;
+
+  constructor(processor: JobProcessor<TInput, TOutput>, concurrency = 1, maxRetainedJobs = 100) {
+    this.processor = processor;
+    this.concurrency = concurrency;
+    this.maxRetainedJobs = maxRetainedJobs;
+  }
+
+  enqueue(input: TInput, total: number): Job<TInput, TOutput> {
+    const job: Job<TInput, TOutput> = {
+      id: randomUUID(),
+      status: 'queued',
+      input,
+      progress: { completed: 0, total },
+      createdAt: new Date()
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job);
+    this.pruneFinishedJobs();
+    this.drain();
+
+    return job;
+  }
+
+  get(id: string): Job<TInput, TOutput> | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): Job<TInput, TOutput>[] {
+    return Array.from(this.jobs.values());
+  }
+
+  // 待機中の位置（0が次に処理される）。待機中でなければ -1
+  positionOf(id: string): number {
+    return this.pending.findIndex(job => job.id === id);
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running++;
+      this.process(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async process(job: Job<TInput, TOutput>): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date();
+
+    try {
+      job.output = await this.processor(job);
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = errorMessage(error);
+    } finally {
+      job.finishedAt = new Date();
+    }
+  }
+
+  // メモリを使い続けないよう、古い完了済みジョブから破棄する
+  private pruneFinishedJobs(): void {
+    const finished = this.list()
+      .filter(job => job.status === 'completed' || job.status === 'failed')
+      .sort((a, b) => a.finishedAt!.getTime() - b.finishedAt!.getTime());
+
+    const excess = this.jobs.size - this.maxRetainedJobs;
+    finished.slice(0, Math.max(0, excess)).forEach(job => this.jobs.delete(job.id));
+  }
+}
@@ -0,0 +1,235 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { extname, join, relative, sep } from 'path';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { BrowserContext } from 'playwright';
+
+export interface SnapshotResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+// 保存時に展開済みの本文を返すため、圧縮や長さに関するヘッダーは使わない
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css',
+  '.js': 'application/javascript',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.txt': 'text/plain; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2'
+};
+
+// Playwright の HAR のうち、保存済みレスポンスの復元に使う項目
+export interface HarFile {
+  log?: {
+    entries?: Array<{
+      request?: { url?: string };
+      response?: {
+        status: number;
+        statusText?: string;
+        headers?: Array<{ name: string; value: string }>;
+        content?: { mimeType?: string; text?: string; encoding?: string };
+      };
+    }>;
+  };
+}
+
+// 1ページ分の保存済みレスポンス。ブラウザと追加リクエスト（robots.txt など）の両方にここから応答する
+export class PageSnapshot {
+  private responses = new Map<string, SnapshotResponse>();
+
+  // 同じURLが複数回記録されている場合は最初のレスポンスを使う
+  constructor(entries: Array<[string, SnapshotResponse]>) {
+    for (const [url, response] of entries) {
+      const key = this.key(url);
+      if (!this.responses.has(key)) {
+        this.responses.set(key, response);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.responses.size;
+  }
+
+  get(url: string): SnapshotResponse | undefined {
+    return this.responses.get(this.key(url));
+  }
+
+  // Playwright の HAR（content: 'embed' で本文を含むもの）
+  static fromHar(har: HarFile): PageSnapshot {
+    const entries: Array<[string, SnapshotResponse]> = [];
+
+    for (const entry of har?.log?.entries || []) {
+      const { request, response } = entry;
+      // 通信に失敗したリクエストは status が 0 で記録される
+      if (!request?.url || !response || response.status <= 0) {
+        continue;
+      }
+
+      const headers: Record<string, string> = {};
+      for (const header of response.headers || []) {
+        const name = String(header.name).toLowerCase();
+        if (!DROPPED_HEADERS.has(name)) {
+          headers[name] = headers[name] ? `${headers[name]}, ${header.value}` : String(header.value);
+        }
+      }
+      if (response.content?.mimeType && !headers['content-type']) {
+        headers['content-type'] = response.content.mimeType;
+      }
+
+      const text: string = response.content?.text || '';
+      entries.push([request.url, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: Buffer.from(text, response.content?.encoding === 'base64' ? 'base64' : 'utf-8')
+      }]);
+    }
+
+    return new PageSnapshot(entries);
+  }
+
+  // ブラウザの「ウェブページを1つのファイルとして保存」（MHTML）。source は latin1 で読み込んだ内容
+  static fromMhtml(source: string): { url: string | null; snapshot: PageSnapshot } {
+    const { headers, body } = splitMimePart(source);
+    const boundary = /boundary="?([^";]+)"?/i.exec(headers['content-type'] || '')?.[1];
+    if (!boundary) {
+      throw new Error('MHTML の boundary が見つかりません');
+    }
+
+    const entries: Array<[string, SnapshotResponse]> = [];
+    for (const chunk of body.split(`--${boundary}`).slice(1)) {
+      // 終端（--boundary--）
+      if (chunk.startsWith('--')) {
+        break;
+      }
+
+      const part = splitMimePart(chunk.replace(/^\r?\n/, ''));
+      const location = part.headers['content-location'];
+      if (!location || location.startsWith('cid:')) {
+        continue;
+      }
+
+      entries.push([location, {
+        status: 200,
+        headers: { 'content-type': part.headers['content-type'] || 'application/octet-stream' },
+        body: decodeMimeBody(part.body, part.headers['content-transfer-encoding'])
+      }]);
+    }
+
+    const url = headers['snapshot-content-location'] || (entries.length > 0 ? entries[0][0] : null);
+    return { url, snapshot: new PageSnapshot(entries) };
+  }
+
+  // 保存したHTMLとアセット。indexFile を baseUrl で、assetDir 内のファイルを rootDir からの相対パスで配信する
+  static fromDirectory(rootDir: string, baseUrl: string, indexFile: string, assetDir = rootDir): PageSnapshot {
+    const entries: Array<[string, SnapshotResponse]> = [];
+    const index = readFileSync(indexFile);
+    entries.push([baseUrl, { status: 200, headers: { 'content-type': CONTENT_TYPES['.html'] }, body: index }]);
+
+    for (const file of existsSync(assetDir) ? listFiles(assetDir) : []) {
+      const path = relative(rootDir, file).split(sep).map(encodeURIComponent).join('/');
+      entries.push([new URL(path, baseUrl).toString(), {
+        status: 200,
+        headers: { 'content-type': CONTENT_TYPES[extname(file).toLowerCase()] || 'application/octet-stream' },
+        body: readFileSync(file)
+      }]);
+    }
+
+    return new PageSnapshot(entries);
+  }
+
+  // ページからのリクエストをすべて横取りし、保存されていないURLには 404 を返す（ネットワークには出ない）
+  async route(context: BrowserContext): Promise<void> {
+    await context.route('**/*', route => {
+      const response = this.get(route.request().url());
+      return route.fulfill(response ?
+        { status: response.status, headers: response.headers, body: response.body } :
+        { status: 404, body: '' });
+    });
+  }
+
+  // robots.txt・sitemap.xml など axios での追加リクエストにも同じ内容で応答するクライアント
+  createHttpClient(): AxiosInstance {
+    return axios.create({
+      adapter: async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const snapshot = this.get(axios.getUri(config));
+        const response: AxiosResponse = {
+          data: snapshot ? snapshot.body.toString('utf-8') : '',
+          status: snapshot ? snapshot.status : 404,
+          statusText: snapshot?.statusText || (snapshot ? 'OK' : 'Not Found'),
+          headers: snapshot ? snapshot.headers : {},
+          config,
+          request: {}
+        };
+
+        // 独自の adapter では validateStatus を自分で適用する
+        if (config.validateStatus && !config.validateStatus(response.status)) {
+          throw new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+        }
+        return response;
+      }
+    });
+  }
+
+  private key(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      return parsed.toString();
+    } catch (e) {
+      return url;
+    }
+  }
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+// ヘッダー（折り返し行を連結し、名前は小文字）と本文に分ける
+function splitMimePart(source: string): { headers: Record<string, string>; body: string } {
+  const match = /\r?\n\r?\n/.exec(source);
+  const head = match ? source.slice(0, match.index) : source;
+  const body = match ? source.slice(match.index + match[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+  return { headers, body };
+}
+
+function decodeMimeBody(body: string, encoding = ''): Buffer {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
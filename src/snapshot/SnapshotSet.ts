@@ -0,0 +1,138 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { BusinessInfo } from '../types';
+import { errorMessage } from '../logging/Logger';
+import { HarFile, PageSnapshot } from './PageSnapshot';
+
+export const SNAPSHOT_MANIFEST = 'manifest.json';
+
+export interface SnapshotManifestPage {
+  business: BusinessInfo;
+  // manifest.json からの相対パス（HAR・MHTML・HTML）
+  file: string;
+  savedAt: string;
+}
+
+export interface SnapshotManifest {
+  createdAt: string;
+  pages: SnapshotManifestPage[];
+}
+
+interface SnapshotEntry {
+  business: BusinessInfo;
+  load(): PageSnapshot;
+}
+
+// ホスト名として扱えるファイル名・フォルダ名（example.co.jp.html → https://example.co.jp/）
+const HOST_NAME = /^([a-z0-9-]+\.)+[a-z]{2,}$/i;
+
+// 保存済みページのフォルダ。snapshot コマンドの出力（manifest.json あり）と、手作業で保存したページの両方を読み込む
+export class SnapshotSet {
+  readonly dir: string;
+  readonly businesses: BusinessInfo[];
+  // 読み込めなかったファイル（分析対象から除外した理由）
+  readonly issues: string[];
+  private entries: Map<string, SnapshotEntry>;
+
+  private constructor(dir: string, entries: SnapshotEntry[], issues: string[]) {
+    this.dir = dir;
+    this.entries = new Map(entries.map(entry => [entry.business.url, entry]));
+    this.businesses = Array.from(this.entries.values()).map(entry => entry.business);
+    this.issues = issues;
+  }
+
+  static isSnapshotDir(path: string): boolean {
+    return existsSync(path) && statSync(path).isDirectory();
+  }
+
+  static open(dir: string): SnapshotSet {
+    const issues: string[] = [];
+    const manifestPath = join(dir, SNAPSHOT_MANIFEST);
+    const entries = existsSync(manifestPath) ?
+      SnapshotSet.readManifest(dir, manifestPath, issues) :
+      SnapshotSet.scan(dir, issues);
+    return new SnapshotSet(dir, entries, issues);
+  }
+
+  // ページの内容はURLごとに分析する直前に読み込む
+  load(url: string): PageSnapshot {
+    const entry = this.entries.get(url);
+    if (!entry) {
+      throw new Error(`スナップショットに ${url} が含まれていません`);
+    }
+    return entry.load();
+  }
+
+  private static readManifest(dir: string, manifestPath: string, issues: string[]): SnapshotEntry[] {
+    const manifest: SnapshotManifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+    return manifest.pages.flatMap(page => {
+      const file = join(dir, page.file);
+      if (!existsSync(file)) {
+        issues.push(`${page.file} が見つかりません（${page.business.url}）`);
+        return [];
+      }
+      return [{ business: page.business, load: () => SnapshotSet.loadFile(file).snapshot }];
+    });
+  }
+
+  // manifest.json がないフォルダでは、*.har・*.mhtml・<ホスト名>.html・<ホスト名>/index.html をページとして扱う
+  private static scan(dir: string, issues: string[]): SnapshotEntry[] {
+    const entries: SnapshotEntry[] = [];
+
+    for (const name of readdirSync(dir).sort()) {
+      const path = join(dir, name);
+      const extension = extname(name).toLowerCase();
+
+      if (statSync(path).isDirectory()) {
+        // ブラウザの「ウェブページ、完全」で保存したアセットのフォルダ（<名前>_files）は HTML と一緒に読み込む
+        if (name.endsWith('_files')) continue;
+        const index = join(path, 'index.html');
+        if (HOST_NAME.test(name) && existsSync(index)) {
+          const url = `https://${name.toLowerCase()}/`;
+          entries.push({ business: { url }, load: () => PageSnapshot.fromDirectory(path, url, index) });
+        }
+        continue;
+      }
+
+      try {
+        if (extension === '.har' || extension === '.mhtml' || extension === '.mht') {
+          const { url } = SnapshotSet.loadFile(path);
+          if (!url) {
+            issues.push(`${name}: ページのURLが記録されていません`);
+            continue;
+          }
+          entries.push({ business: { url }, load: () => SnapshotSet.loadFile(path).snapshot });
+        } else if (extension === '.html' || extension === '.htm') {
+          const host = basename(name, extname(name));
+          if (!HOST_NAME.test(host)) {
+            issues.push(`${name}: ファイル名をホスト名（例: example.co.jp.html）にしてください`);
+            continue;
+          }
+          entries.push({ business: { url: `https://${host.toLowerCase()}/` }, load: () => SnapshotSet.loadFile(path).snapshot });
+        }
+      } catch (error) {
+        issues.push(`${name}: 読み込めません（${errorMessage(error)}）`);
+      }
+    }
+
+    return entries;
+  }
+
+  private static loadFile(file: string): { url: string | null; snapshot: PageSnapshot } {
+    const extension = extname(file).toLowerCase();
+    if (extension === '.har') {
+      const har: HarFile = JSON.parse(readFileSync(file, 'utf-8'));
+      // 最初のエントリがページ本体のリクエスト
+      const url: string | null = har?.log?.entries?.[0]?.request?.url || null;
+      return { url, snapshot: PageSnapshot.fromHar(har) };
+    }
+    if (extension === '.mhtml' || extension === '.mht') {
+      return PageSnapshot.fromMhtml(readFileSync(file, 'latin1'));
+    }
+
+    // <ホスト名>.html と、同じ場所の <ホスト名>_files フォルダ
+    const name = basename(file, extname(file));
+    const url = `https://${name.toLowerCase()}/`;
+    return { url, snapshot: PageSnapshot.fromDirectory(dirname(file), url, file, join(dirname(file), `${name}_files`)) };
+  }
+}
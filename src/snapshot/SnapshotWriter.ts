@@ -0,0 +1,118 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AxiosInstance, AxiosResponse } from 'axios';
+import { BusinessInfo } from '../types';
+import { SNAPSHOT_MANIFEST, SnapshotManifest } from './SnapshotSet';
+
+// PageSpeed API など、APIキーを含むリクエストは保存しない
+const CREDENTIAL_PARAMS = ['key', 'apikey', 'api_key', 'access_token'];
+
+// 1ページ分の記録。ブラウザの通信は HAR に、axios での追加リクエストは http の応答から集める
+export interface SnapshotRecorder {
+  harPath: string;
+  http: AxiosInstance;
+  // コンテキストを閉じて HAR が書き出された後に呼ぶ
+  save(business: BusinessInfo): void;
+}
+
+// 分析したページを、後からネットワークなしで再分析できる形（HAR + manifest.json）で保存する
+export class SnapshotWriter {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  // fileKey はURLごとに一意なファイル名（ProspectAnalyzer のスクリーンショットと同じ）
+  startPage(fileKey: string, http: AxiosInstance): SnapshotRecorder {
+    mkdirSync(join(this.dir, 'pages'), { recursive: true });
+    const file = `pages/${fileKey}.har`;
+    const harPath = join(this.dir, file);
+    const responses: AxiosResponse[] = [];
+
+    const collect = (response?: AxiosResponse) => {
+      if (response && !hasCredentials(http.getUri(response.config))) {
+        responses.push(response);
+      }
+    };
+    http.interceptors.response.use(
+      response => {
+        collect(response);
+        return response;
+      },
+      error => {
+        collect(error?.response);
+        return Promise.reject(error);
+      }
+    );
+
+    return {
+      harPath,
+      http,
+      save: business => {
+        this.appendResponses(harPath, http, responses);
+        this.addToManifest(business, file);
+      }
+    };
+  }
+
+  private appendResponses(harPath: string, http: AxiosInstance, responses: AxiosResponse[]): void {
+    const har = JSON.parse(readFileSync(harPath, 'utf-8'));
+    for (const response of responses) {
+      const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data ?? '');
+      har.log.entries.push({
+        startedDateTime: new Date().toISOString(),
+        time: 0,
+        request: {
+          method: (response.config.method || 'get').toUpperCase(),
+          url: http.getUri(response.config),
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: [],
+          queryString: [],
+          headersSize: -1,
+          bodySize: 0
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: Object.entries(response.headers || {}).map(([name, value]) => ({ name, value: String(value) })),
+          content: {
+            size: Buffer.byteLength(body),
+            mimeType: String(response.headers?.['content-type'] || 'text/plain'),
+            text: body
+          },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: -1
+        },
+        cache: {},
+        timings: { send: 0, wait: 0, receive: 0 }
+      });
+    }
+    writeFileSync(harPath, JSON.stringify(har), 'utf-8');
+  }
+
+  // 同じURLを保存し直した場合は置き換える
+  private addToManifest(business: BusinessInfo, file: string): void {
+    const manifestPath = join(this.dir, SNAPSHOT_MANIFEST);
+    const manifest: SnapshotManifest = existsSync(manifestPath) ?
+      JSON.parse(readFileSync(manifestPath, 'utf-8')) :
+      { createdAt: new Date().toISOString(), pages: [] };
+
+    manifest.pages = manifest.pages.filter(page => page.business.url !== business.url);
+    manifest.pages.push({ business, file, savedAt: new Date().toISOString() });
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  }
+}
+
+function hasCredentials(url: string): boolean {
+  try {
+    const params = new URL(url).searchParams;
+    return CREDENTIAL_PARAMS.some(name => params.has(name));
+  } catch (e) {
+    return true;
+  }
+}
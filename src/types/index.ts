@@ -3,19 +3,46 @@ export interface BusinessInfo {
   businessName?: string;
   industry?: string;
   location?: string;
+  // 同じサイトに集約された他の事業者名
+  aliases?: string[];
+}
+
+// 入力ファイルの列から読み込む項目（aliases は重複行の集約で付与される）
+export type InputColumnField = Exclude<keyof BusinessInfo, 'aliases'>;
+
+export interface BusinessEnrichment {
+  technologies?: string[];
+  lastUpdated?: Date;
+  hasSNS?: boolean;
+  snsLinks?: string[];
+  employeeCount?: string;
+  establishedYear?: string;
+}
+
+export type BuiltInAnalysisCategory = "performance" | "mobile" | "seo" | "conversion" | "content";
+
+// 組み込み以外のカテゴリはアナライザーの登録（AnalyzerRegistry）で追加される
+export type AnalysisCategory = BuiltInAnalysisCategory | (string & Record<never, never>);
+
+// 組み込みカテゴリは必須、追加カテゴリは任意のカテゴリ別の値
+export type CategoryRecord<T> = Record<BuiltInAnalysisCategory, T> & Partial<Record<string, T>>;
+
+// 分析に失敗したカテゴリのスコアは null
+export type CategoryScores = { total: number } & CategoryRecord<number | null>;
+
+export interface AnalyzerFailure {
+  category: AnalysisCategory;
+  reason: string;
+  timedOut: boolean;
 }
 
 export interface AnalysisResult {
   url: string;
+  // リダイレクト後に到達したURL
+  finalUrl?: string;
   businessInfo: BusinessInfo;
-  scores: {
-    total: number;
-    performance: number;
-    mobile: number;
-    seo: number;
-    conversion: number;
-    content: number;
-  };
+  scores: CategoryScores;
+  failedAnalyzers: AnalyzerFailure[];
   issues: Issue[];
   opportunities: Opportunity[];
   estimatedMonthlyLoss: number;
@@ -25,11 +52,77 @@ export interface AnalysisResult {
     desktop: string;
     mobile: string;
   };
+  // 記録した場合のみ（HAR はブラウザで、トレースは npx playwright show-trace で開ける）
+  recordings?: {
+    har?: string;
+    trace?: string;
+  };
+  enrichment?: BusinessEnrichment;
   analyzedAt: Date;
 }
 
+export type FailureReason =
+  | "DNS"
+  | "TLS"
+  | "Timeout"
+  | "ConnectionRefused"
+  | "HTTP4xx"
+  | "HTTP5xx"
+  | "BotBlock"
+  | "ParkedDomain"
+  | "RobotsDisallowed"
+  | "Unknown";
+
+export interface FailedAnalysis {
+  url: string;
+  businessInfo: BusinessInfo;
+  reason: FailureReason;
+  message: string;
+  httpStatus?: number;
+  attempts: number;
+  failedAt: Date;
+}
+
+export interface AnalysisBatch {
+  results: AnalysisResult[];
+  failures: FailedAnalysis[];
+}
+
+export type ProspectChange =
+  | "Improved"
+  | "Worsened"
+  | "Unchanged"
+  | "WentDown"
+  | "StillDown"
+  | "Recovered"
+  | "Added"
+  | "Removed";
+
+export interface ProspectDiff {
+  url: string;
+  businessInfo: BusinessInfo;
+  change: ProspectChange;
+  before?: AnalysisResult;
+  after?: AnalysisResult;
+  beforeFailure?: FailedAnalysis;
+  afterFailure?: FailedAnalysis;
+  scoreDelta: number | null;
+  fixedIssues: Issue[];
+  newIssues: Issue[];
+}
+
+export interface RunDiff {
+  baseRunId: string;
+  baseStartedAt: string;
+  targetRunId: string;
+  targetStartedAt: string;
+  prospects: ProspectDiff[];
+}
+
+export type IssueCategory = "Performance" | "SEO" | "Mobile" | "Conversion" | "Content" | (string & Record<never, never>);
+
 export interface Issue {
-  category: "Performance" | "SEO" | "Mobile" | "Conversion" | "Content";
+  category: IssueCategory;
   severity: "Critical" | "High" | "Medium" | "Low";
   description: string;
   impact: string;
@@ -81,7 +174,7 @@ export interface SEOCheckResult {
   hasOGP: boolean;
   ogpProperties?: Record<string, string>;
   hasRobotsTxt: boolean;
-  hasSitemap: boolean;
+  hasSitemap: boolean | null; // robots.txt で取得が禁止されていて確認できなかった場合は null
   keywords?: string[];
 }
 
@@ -130,24 +223,14 @@ export interface ContentCheckResult {
 
 export interface IndustryConfig {
   keywords: string[];
-  weightMultipliers: {
-    performance: number;
-    mobile: number;
-    seo: number;
-    conversion: number;
-    content: number;
-  };
+  // 未指定のカテゴリは 1
+  weightMultipliers: CategoryRecord<number>;
   criticalElements: string[];
   averageMonthlyRevenue: number;
 }
 
-export interface ScoringWeights {
-  performance: number;
-  mobile: number;
-  seo: number;
-  conversion: number;
-  content: number;
-}
+// 未指定の追加カテゴリはアナライザーの既定の重みを使う
+export type ScoringWeights = CategoryRecord<number>;
 
 export interface AnalyzerConfig {
   performanceThreshold: number;
@@ -158,7 +241,96 @@ export interface AnalyzerConfig {
   pageSpeedApiKey?: string;
   googleMapsApiKey?: string;
   screenshotTimeout: number;
+  // スクリーンショットと同じフォルダにページごとの HAR・Playwright トレースを保存する
+  recordHar: boolean;
+  recordTrace: boolean;
+  analyzerTimeouts: CategoryRecord<number>;
   maxConcurrentAnalyses: number;
+  hostIntervalMs: number;
+  // 同じIPアドレス（共有ホスティングの同一サーバー）へのアクセス間隔
+  ipIntervalMs: number;
+  respectRobotsTxt: boolean;
+  // 未指定の場合はブラウザ既定の User-Agent
+  userAgent?: string;
+  // 1回の実行で対象サイトへ送るリクエストの上限（0 は無制限）
+  requestBudget: number;
+  browserRecycleInterval: number;
   retryAttempts: number;
   retryDelay: number;
-}
\ No newline at end of file
+  // 停止（SIGINT / SIGTERM）時に実行中の分析の完了を待つ時間
+  shutdownGracePeriodMs: number;
+}
+export interface PriorityThresholds {
+  High: {
+    scoreMax: number;
+    monthlyLossMin: number;
+  };
+  Medium: {
+    scoreMax: number;
+    monthlyLossMin: number;
+  };
+  Low: {
+    scoreMax: number;
+    monthlyLossMin: number;
+  };
+}
+
+export type InputEncoding = "utf-8" | "utf-8-bom" | "cp932";
+
+// Excel で開くCSVは BOM 付き UTF-8 か CP932（Shift_JIS）で出力する
+export type OutputEncoding = "utf-8-bom" | "utf-8" | "cp932";
+
+export type LogLevel = "error" | "warn" | "info" | "debug";
+
+export interface ReportingConfig {
+  includeScreenshots: boolean;
+  maxHighPriorityDetails: number;
+  generateSummaryCSV: boolean;
+  csvEncoding: OutputEncoding;
+}
+
+export type InputFormat = "csv" | "tsv" | "json" | "jsonl" | "xlsx";
+
+export interface InputConfig {
+  format: InputFormat | "auto";
+  // 項目ごとの列名（未指定の項目は既定の列名から探す）。JSONの入れ子は "company.website" のように指定
+  columns: Partial<Record<InputColumnField, string>>;
+  // XLSXで読み込むシート名（未指定は先頭のシート）
+  sheet?: string;
+}
+
+export interface ProxyConfig {
+  // http:// https:// socks4:// socks5:// のURL。複数指定するとブラウザの起動・APIリクエストごとに順番に切り替える
+  servers: string[];
+  // 未指定の場合は環境変数 PROXY_USERNAME / PROXY_PASSWORD（URLに含めることも可）。SOCKS プロキシには指定できない
+  username?: string;
+  password?: string;
+  // プロキシを経由しないホスト（"localhost"、".example.co.jp" のようにドメイン単位でも指定可）
+  bypass: string[];
+}
+
+export interface CollectionTarget {
+  area: string;
+  categories: string[];
+  radius: number;
+  limit: number;
+}
+
+export interface CollectionFilters {
+  excludeChains: boolean;
+  minRating: number;
+  requireWebsite: boolean;
+}
+
+export interface AppConfig {
+  targets: CollectionTarget[];
+  analysis: AnalyzerConfig;
+  scoring: {
+    weights: ScoringWeights;
+    priorityThresholds: PriorityThresholds;
+  };
+  reporting: ReportingConfig;
+  filters: CollectionFilters;
+  input: InputConfig;
+  proxy: ProxyConfig;
+}
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProspectAnalyzer } from '../src/ProspectAnalyzer';
+import { ApiServer } from '../src/server/ApiServer';
+import { DEFAULT_APP_CONFIG } from '../src/config/constants';
+import { AnalysisResult, BusinessInfo, FailedAnalysis } from '../src/types';
+import { silentLogger } from './helpers/analyzerContext';
+
+// ページを開かずに、同じファイル名のスクリーンショットを呼び出しごとのフォルダに書き出す
+class ScreenshotWritingAnalyzer extends ProspectAnalyzer {
+  constructor(private root: string) {
+    super(undefined, { logger: silentLogger, screenshotDir: root });
+  }
+
+  async analyzeUrl(businessInfo: BusinessInfo, screenshotSubdir?: string): Promise<AnalysisResult | FailedAnalysis> {
+    const dir = join(this.root, screenshotSubdir || '');
+    mkdirSync(dir, { recursive: true });
+    const desktop = join(dir, 'page_desktop.png');
+    writeFileSync(desktop, `${screenshotSubdir}`);
+
+    return {
+      url: businessInfo.url,
+      businessInfo,
+      scores: { total: 50, performance: 50, mobile: 50, seo: 50, conversion: 50, content: 50 },
+      failedAnalyzers: [],
+      issues: [],
+      opportunities: [],
+      estimatedMonthlyLoss: 0,
+      recommendedPlan: 'Standard',
+      priority: 'Medium',
+      screenshots: { desktop, mobile: '' },
+      analyzedAt: new Date()
+    };
+  }
+}
+
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+describe('ApiServer', () => {
+  let dir: string;
+  let analyzer: ScreenshotWritingAnalyzer;
+  let server: ApiServer;
+  let baseUrl: string;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'api-server-'));
+    analyzer = new ScreenshotWritingAnalyzer(dir);
+    server = new ApiServer(analyzer, DEFAULT_APP_CONFIG, silentLogger);
+    const port = await freePort();
+    await server.listen(port, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  after(async () => {
+    await server?.close();
+    await analyzer?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function post(body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}/analyses`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+  }
+
+  async function waitForCompletion(id: string): Promise<Record<string, unknown>> {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const job = await (await fetch(`${baseUrl}/analyses/${id}`)).json() as Record<string, unknown>;
+      if (job.status !== 'queued' && job.status !== 'running') {
+        return job;
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error('待機時間を過ぎました');
+  }
+
+  test('url のない項目や形式が不正なURLは項目ごとの理由とともに拒否する', async () => {
+    const response = await post({ businesses: [{ businessName: '名前のみ' }, 'https://a.example.jp/', { url: 'http://' }] });
+
+    assert.equal(response.status, 400);
+    const body = await response.json() as { details: string[] };
+    assert.deepEqual(body.details, [
+      '[0] url が指定されていません',
+      '[1] url が指定されていません',
+      '[2] URLの形式が不正です: http://'
+    ]);
+  });
+
+  test('配列でも { businesses } でもない本文は拒否する', async () => {
+    for (const body of [null, 'https://a.example.jp/', { urls: ['https://a.example.jp/'] }, []]) {
+      assert.equal((await post(body)).status, 400, JSON.stringify(body));
+    }
+  });
+
+  test('同じURLのジョブでも、それぞれのジョブで撮影したスクリーンショットを返す', async () => {
+    const businesses = [{ url: 'https://a.example.jp/' }];
+    const ids: string[] = [];
+    for (const body of [businesses, { businesses }]) {
+      const response = await post(body);
+      assert.equal(response.status, 202);
+      ids.push((await response.json() as { id: string }).id);
+    }
+
+    for (const id of ids) {
+      const job = await waitForCompletion(id);
+      assert.equal(job.status, 'completed');
+
+      const [result] = job.results as Array<{ screenshots: { desktop: string } }>;
+      assert.equal(result.screenshots.desktop, `/analyses/${id}/screenshots/page_desktop.png`);
+      const screenshot = await fetch(`${baseUrl}${result.screenshots.desktop}`);
+      assert.equal(screenshot.status, 200);
+      assert.equal(await screenshot.text(), id);
+    }
+  });
+});
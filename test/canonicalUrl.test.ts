@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { canonicalizeUrl, withScheme } from '../src/input/canonicalUrl';
+
+describe('canonicalizeUrl', () => {
+  test('表記だけが異なるURLを同じ正規形にする', () => {
+    const variants = [
+      'http://example.com',
+      'https://www.example.com/',
+      'https://Example.com/index.html',
+      'example.com/?utm_source=mail#access',
+      'HTTP://WWW.EXAMPLE.COM/default.php?gclid=abc'
+    ];
+    assert.deepEqual(new Set(variants.map(canonicalizeUrl)), new Set(['example.com']));
+  });
+
+  test('パス・計測用以外のパラメータ・ポートの違いは区別する', () => {
+    assert.equal(canonicalizeUrl('https://example.com/menu/?lang=ja&utm_medium=cpc'), 'example.com/menu?lang=ja');
+    assert.notEqual(canonicalizeUrl('https://example.com:8080/'), canonicalizeUrl('https://example.com/'));
+    assert.notEqual(canonicalizeUrl('https://shop.example.com/'), canonicalizeUrl('https://example.com/'));
+  });
+});
+
+describe('withScheme', () => {
+  test('スキームだけを補い、入力されたURLを変えない', () => {
+    assert.equal(withScheme(' www.example.com/index.html?utm_source=mail '), 'https://www.example.com/index.html?utm_source=mail');
+    assert.equal(withScheme('http://Example.com/'), 'http://Example.com/');
+  });
+});
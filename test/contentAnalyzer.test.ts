@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { Browser, chromium } from 'playwright';
+import { ContentAnalyzer } from '../src/analyzers/ContentAnalyzer';
+import { BROWSER_MISSING } from './helpers/browser';
+
+describe('ContentAnalyzer', { skip: BROWSER_MISSING }, () => {
+  const analyzer = new ContentAnalyzer();
+  let browser: Browser;
+
+  before(async () => {
+    browser = await chromium.launch();
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  test('footer 要素がないページでも要素の出現を待たずに分析する', async () => {
+    const page = await browser.newPage();
+    try {
+      // 本番ではページの既定の待ち時間と分析の制限時間がほぼ同じため、待つと分析全体が失敗する
+      page.setDefaultTimeout(1000);
+      await page.setContent('<p>© 2019 サンプル商店</p>');
+
+      const { checkResult } = await analyzer.analyze(page);
+      assert.equal(checkResult.lastUpdated, undefined);
+    } finally {
+      await page.close();
+    }
+  });
+
+  test('footer の年号を最終更新日とみなす', async () => {
+    const page = await browser.newPage();
+    try {
+      await page.setContent('<p>サンプル商店</p><footer>© 2019 サンプル商店</footer>');
+
+      const { checkResult } = await analyzer.analyze(page);
+      assert.deepEqual(checkResult.lastUpdated, new Date('2019-01-01'));
+    } finally {
+      await page.close();
+    }
+  });
+});
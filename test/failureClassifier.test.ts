@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Page, Response } from 'playwright';
+import { FailureClassifier, NavigationError } from '../src/runner/FailureClassifier';
+import { FailureReason } from '../src/types';
+
+const classifier = new FailureClassifier();
+
+// ブラウザを使わずに、ステータス・タイトル・本文だけを返すページとレスポンス
+function fakePage(title: string, content: string): Page {
+  return { title: async () => title, content: async () => content } as unknown as Page;
+}
+
+function fakeResponse(status: number): Response {
+  return { status: () => status } as unknown as Response;
+}
+
+function timeoutError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'TimeoutError';
+  return error;
+}
+
+describe('FailureClassifier.classify', () => {
+  const cases: Array<{ error: unknown; reason: FailureReason; message: string }> = [
+    { error: new Error('net::ERR_NAME_NOT_RESOLVED at https://a.example.jp/'), reason: 'DNS', message: 'net::ERR_NAME_NOT_RESOLVED at https://a.example.jp/' },
+    { error: new Error('getaddrinfo ENOTFOUND a.example.jp'), reason: 'DNS', message: 'getaddrinfo ENOTFOUND a.example.jp' },
+    { error: new Error('getaddrinfo EAI_AGAIN a.example.jp'), reason: 'DNS', message: 'getaddrinfo EAI_AGAIN a.example.jp' },
+    { error: new Error('net::ERR_CERT_DATE_INVALID at https://a.example.jp/'), reason: 'TLS', message: 'net::ERR_CERT_DATE_INVALID at https://a.example.jp/' },
+    { error: new Error('net::ERR_SSL_PROTOCOL_ERROR at https://a.example.jp/'), reason: 'TLS', message: 'net::ERR_SSL_PROTOCOL_ERROR at https://a.example.jp/' },
+    { error: new Error('certificate has expired (CERT_HAS_EXPIRED)'), reason: 'TLS', message: 'certificate has expired (CERT_HAS_EXPIRED)' },
+    { error: timeoutError('page.goto: Timeout 30000ms exceeded.\nCall log:\n  - navigating to "https://a.example.jp/"'), reason: 'Timeout', message: 'page.goto: Timeout 30000ms exceeded.' },
+    { error: new Error('net::ERR_TIMED_OUT at https://a.example.jp/'), reason: 'Timeout', message: 'net::ERR_TIMED_OUT at https://a.example.jp/' },
+    { error: new Error('connect ETIMEDOUT 192.0.2.1:443'), reason: 'Timeout', message: 'connect ETIMEDOUT 192.0.2.1:443' },
+    { error: new Error('net::ERR_CONNECTION_REFUSED at https://a.example.jp/'), reason: 'ConnectionRefused', message: 'net::ERR_CONNECTION_REFUSED at https://a.example.jp/' },
+    { error: new Error('net::ERR_EMPTY_RESPONSE at https://a.example.jp/'), reason: 'ConnectionRefused', message: 'net::ERR_EMPTY_RESPONSE at https://a.example.jp/' },
+    { error: new Error('read ECONNRESET'), reason: 'ConnectionRefused', message: 'read ECONNRESET' },
+    { error: new Error('Target page, context or browser has been closed'), reason: 'Unknown', message: 'Target page, context or browser has been closed' },
+    { error: 'ENOTFOUND', reason: 'DNS', message: 'ENOTFOUND' },
+    { error: new NavigationError('BotBlock', 'ボット対策によりアクセスが拒否されました (HTTP 403)', 403), reason: 'BotBlock', message: 'ボット対策によりアクセスが拒否されました (HTTP 403)' }
+  ];
+
+  test('NavigationError は HTTP ステータスも引き継ぐ', () => {
+    assert.equal(classifier.classify(new NavigationError('HTTP5xx', 'サーバーエラー (HTTP 502)', 502)).httpStatus, 502);
+  });
+
+  for (const { error, reason, message } of cases) {
+    test(`${message} → ${reason}`, () => {
+      const { reason: actualReason, message: actualMessage } = classifier.classify(error);
+      assert.deepEqual({ reason: actualReason, message: actualMessage }, { reason, message });
+    });
+  }
+});
+
+describe('FailureClassifier.inspect', () => {
+  const cases: Array<{ name: string; status: number; title?: string; content?: string; reason: FailureReason | null }> = [
+    { name: '200 の通常のページ', status: 200, title: 'サンプル商店', reason: null },
+    { name: '304', status: 304, reason: null },
+    { name: '403 のボット対策ページ', status: 403, title: 'Just a moment...', reason: 'BotBlock' },
+    { name: '429 の CAPTCHA', status: 429, content: '<div class="g-recaptcha">captcha</div>', reason: 'BotBlock' },
+    { name: '503 の Cloudflare', status: 503, title: 'Attention Required! | Cloudflare', reason: 'BotBlock' },
+    { name: '200 のチャレンジページ', status: 200, title: 'Just a moment...', reason: 'BotBlock' },
+    { name: '404 に CAPTCHA の文言', status: 404, content: 'captcha', reason: 'HTTP4xx' },
+    { name: '403 の通常のエラーページ', status: 403, title: 'Forbidden', reason: 'HTTP4xx' },
+    { name: '404', status: 404, reason: 'HTTP4xx' },
+    { name: '500', status: 500, reason: 'HTTP5xx' },
+    { name: '503 の通常のエラーページ', status: 503, title: 'Service Unavailable', reason: 'HTTP5xx' },
+    { name: 'パーキングドメイン（英語）', status: 200, content: 'This domain is for sale!', reason: 'ParkedDomain' },
+    { name: 'パーキングドメイン（日本語）', status: 200, content: 'このドメインはお名前.comで取得されています', reason: 'ParkedDomain' }
+  ];
+
+  for (const { name, status, title = '', content = '', reason } of cases) {
+    test(`${name} → ${reason ?? '分析可能'}`, async () => {
+      const inspected = classifier.inspect(fakePage(title, content), fakeResponse(status));
+      if (!reason) {
+        await inspected;
+        return;
+      }
+      await assert.rejects(inspected, (error: unknown) =>
+        error instanceof NavigationError && error.reason === reason && error.httpStatus === status
+      );
+    });
+  }
+
+  test('レスポンスがなければ Unknown', async () => {
+    await assert.rejects(classifier.inspect(fakePage('', ''), null), (error: unknown) =>
+      error instanceof NavigationError && error.reason === 'Unknown'
+    );
+  });
+});
+
+describe('FailureClassifier.isRetryable', () => {
+  const retryable: Record<FailureReason, boolean> = {
+    DNS: false,
+    TLS: false,
+    Timeout: true,
+    ConnectionRefused: true,
+    HTTP4xx: false,
+    HTTP5xx: true,
+    BotBlock: false,
+    ParkedDomain: false,
+    RobotsDisallowed: false,
+    Unknown: false
+  };
+
+  for (const [reason, expected] of Object.entries(retryable) as Array<[FailureReason, boolean]>) {
+    test(`${reason}: ${expected ? '再試行する' : '再試行しない'}`, () => {
+      assert.equal(classifier.isRetryable(reason), expected);
+    });
+  }
+});
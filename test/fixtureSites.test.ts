@@ -0,0 +1,106 @@
+import { after, before, describe, test } from 'node:test';
+import { Browser, chromium } from 'playwright';
+import { Analyzer, AnalyzerOutput } from '../src/analyzers/Analyzer';
+import { analyzerRegistry } from '../src/analyzers/AnalyzerRegistry';
+import { ContentAnalyzer } from '../src/analyzers/ContentAnalyzer';
+import { ConversionAnalyzer } from '../src/analyzers/ConversionAnalyzer';
+import { MobileAnalyzer } from '../src/analyzers/MobileAnalyzer';
+import { SEOAnalyzer } from '../src/analyzers/SEOAnalyzer';
+import { OpportunityCalculator } from '../src/scoring/OpportunityCalculator';
+import { ScoringEngine } from '../src/scoring/ScoringEngine';
+import { AnalysisCategory } from '../src/types';
+import { FIXTURE_SITES, FixtureSiteCase } from './fixtures/sites';
+import { createAnalyzerContext } from './helpers/analyzerContext';
+import { BROWSER_MISSING } from './helpers/browser';
+import { startFixtureSite } from './helpers/fixtureServer';
+import { assertGolden, readGolden } from './helpers/golden';
+
+// ページを読み込んで分析するアナライザー（PerformanceAnalyzer は performanceAnalyzer.test.ts で確認する）
+const PAGE_ANALYZERS: Analyzer[] = [
+  new MobileAnalyzer(),
+  new SEOAnalyzer(),
+  new ConversionAnalyzer(),
+  new ContentAnalyzer()
+];
+
+async function analyzeSite(browser: Browser, site: FixtureSiteCase): Promise<Record<string, AnalyzerOutput>> {
+  const server = await startFixtureSite(site.name);
+  const businessInfo = { url: server.url, ...site.businessInfo };
+  const outputs: Record<string, AnalyzerOutput> = {};
+
+  try {
+    // 本番では同じページを並行して分析するが、ビューポートを変えるアナライザーがあるため1つずつ新しいページで分析する
+    for (const analyzer of PAGE_ANALYZERS) {
+      const context = await browser.newContext();
+      try {
+        // 地図や動画の埋め込みなど、フィクスチャサーバー以外へのリクエストは送らない
+        await context.route('**/*', route => route.request().url().startsWith(server.url) ?
+          route.continue() :
+          route.abort());
+        const page = await context.newPage();
+        await page.goto(server.url, { waitUntil: 'networkidle' });
+        outputs[analyzer.category] = await analyzer.analyze(page, createAnalyzerContext(businessInfo));
+      } finally {
+        await context.close();
+      }
+    }
+  } finally {
+    await server.close();
+  }
+
+  return outputs;
+}
+
+// ブラウザがない環境では、ページの分析を飛ばしてスコア計算のみ確認する
+describe('フィクスチャサイトの分析', { skip: BROWSER_MISSING }, () => {
+  let browser: Browser;
+
+  before(async () => {
+    browser = await chromium.launch();
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  for (const site of FIXTURE_SITES) {
+    test(site.name, async () => {
+      assertGolden(`analyzers/${site.name}`, await analyzeSite(browser, site));
+    });
+  }
+});
+
+// 分析結果の期待値を入力にするため、アナライザーの変更が営業優先度や推定損失額をどう動かすかもここで分かる
+describe('フィクスチャサイトのスコアと改善機会', () => {
+  const scoringEngine = new ScoringEngine();
+  const opportunityCalculator = new OpportunityCalculator();
+
+  for (const site of FIXTURE_SITES) {
+    test(site.name, () => {
+      const outputs: Record<string, AnalyzerOutput | null> = {
+        ...readGolden(`analyzers/${site.name}`),
+        performance: site.pageSpeed ? readGolden(`performance/${site.pageSpeed}`) : null
+      };
+      // ProspectAnalyzer と同じく登録順に並べる
+      const categoryResults: Partial<Record<AnalysisCategory, AnalyzerOutput | null>> = {};
+      for (const analyzer of analyzerRegistry.list()) {
+        categoryResults[analyzer.category] = outputs[analyzer.category] ?? null;
+      }
+      const industry = site.businessInfo.industry;
+
+      const scores = scoringEngine.calculateScores({ categories: categoryResults, isHttps: site.isHttps }, industry);
+      const opportunities = opportunityCalculator.calculate({ scores, categoryResults }, industry);
+      const estimatedMonthlyLoss = opportunities.reduce((sum, opp) => sum + opp.estimatedRevenueLift, 0);
+
+      assertGolden(`scoring/${site.name}`, {
+        scores,
+        breakdown: scoringEngine.generateScoreBreakdown(scores),
+        recommendedPlan: scoringEngine.recommendPlan(scores.total),
+        priority: scoringEngine.determinePriority(scores.total, estimatedMonthlyLoss),
+        estimatedMonthlyLoss,
+        opportunities,
+        opportunityValue: opportunityCalculator.calculateTotalOpportunityValue(opportunities)
+      });
+    });
+  }
+});
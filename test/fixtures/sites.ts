@@ -0,0 +1,43 @@
+import { BusinessInfo } from '../../src/types';
+
+export interface FixtureSiteCase {
+  // test/fixtures/sites 以下のフォルダ名（期待値のファイル名にも使う）
+  name: string;
+  businessInfo: Omit<BusinessInfo, 'url'>;
+  // スコア計算で使う HTTPS 対応の有無（フィクスチャは http で配信するため、想定する本番のサイトに合わせて指定する）
+  isHttps: boolean;
+  // スコア計算で使う表示速度の測定結果（test/fixtures/pagespeed のファイル名。null は測定に失敗した場合）
+  pageSpeed: 'fast' | 'slow' | null;
+}
+
+// 営業先として典型的な小規模事業者のサイト
+export const FIXTURE_SITES: FixtureSiteCase[] = [
+  {
+    // 電話リンク・予約ボタン・地図があり、SEO も整っている
+    name: 'restaurant',
+    businessInfo: { businessName: '和食処 さくら', industry: 'restaurant', location: '東京都渋谷区' },
+    isHttps: true,
+    pageSpeed: 'fast'
+  },
+  {
+    // viewport がなく固定幅。電話番号がリンクになっておらず、文字も小さい
+    name: 'clinic',
+    businessInfo: { businessName: '山田内科クリニック', industry: 'clinic', location: '大阪府大阪市' },
+    isHttps: false,
+    pageSpeed: 'slow'
+  },
+  {
+    // 問い合わせフォーム・LINE・動画・お客様の声があるが、電話番号がない
+    name: 'beauty-salon',
+    businessInfo: { businessName: 'hair salon Lumière', industry: 'beauty', location: '東京都港区' },
+    isHttps: true,
+    pageSpeed: 'slow'
+  },
+  {
+    // 準備中のまま更新されていない
+    name: 'law-office',
+    businessInfo: { businessName: '鈴木法律事務所', industry: 'legal' },
+    isHttps: false,
+    pageSpeed: null
+  }
+];
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import iconv from 'iconv-lite';
+import { GoogleMapsCollector } from '../src/collectors/GoogleMapsCollector';
+import { silentLogger } from './helpers/analyzerContext';
+
+describe('GoogleMapsCollector.exportToCSV', () => {
+  const collector = new GoogleMapsCollector(undefined, undefined, silentLogger);
+  const businesses = [{ url: 'https://sakura-washoku.example.jp/', businessName: '和食処 さくら', industry: 'restaurant', location: '渋谷区' }];
+
+  test('出力先のフォルダを作成し、指定した文字コードで書き出す', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'collect-'));
+    try {
+      const bomPath = join(dir, 'nested', 'bom.csv');
+      await collector.exportToCSV(businesses, bomPath);
+      const bom = readFileSync(bomPath);
+      assert.deepEqual([...bom.subarray(0, 3)], [0xef, 0xbb, 0xbf]);
+
+      const cp932Path = join(dir, 'cp932.csv');
+      await collector.exportToCSV(businesses, cp932Path, 'cp932');
+      const text = iconv.decode(readFileSync(cp932Path), 'cp932');
+      assert.match(text, /和食処 さくら/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
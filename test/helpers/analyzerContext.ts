@@ -0,0 +1,42 @@
+import axios, { AxiosInstance } from 'axios';
+import { AnalyzerContext } from '../../src/analyzers/Analyzer';
+import { DEFAULT_ANALYZER_CONFIG } from '../../src/config/constants';
+import { Logger } from '../../src/logging/Logger';
+import { Politeness } from '../../src/runner/Politeness';
+import { AnalyzerConfig, BusinessInfo } from '../../src/types';
+
+// テストの出力に分析中のログを混ぜない
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+export interface AnalyzerContextOptions {
+  http?: AxiosInstance;
+  config?: Partial<AnalyzerConfig>;
+  offline?: boolean;
+}
+
+// フィクスチャサーバーはローカルのため、アクセス間隔とリトライの待ち時間は空けない
+export function createAnalyzerContext(businessInfo: BusinessInfo, options: AnalyzerContextOptions = {}): AnalyzerContext {
+  const config: AnalyzerConfig = {
+    ...DEFAULT_ANALYZER_CONFIG,
+    hostIntervalMs: 0,
+    ipIntervalMs: 0,
+    retryDelay: 0,
+    ...options.config
+  };
+  const http = options.http || axios.create();
+
+  return {
+    url: businessInfo.url,
+    businessInfo,
+    config,
+    logger: silentLogger,
+    politeness: new Politeness(config, http),
+    http,
+    offline: options.offline ?? false
+  };
+}
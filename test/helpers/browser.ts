@@ -0,0 +1,7 @@
+import { existsSync } from 'fs';
+import { chromium } from 'playwright';
+
+// ブラウザがない環境（npx playwright install の前）では、ページを読み込むテストを飛ばす
+export const BROWSER_MISSING: string | false = existsSync(chromium.executablePath()) ?
+  false :
+  'Chromium がインストールされていません（npx playwright install chromium）';
@@ -0,0 +1,45 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { extname, join, normalize, sep } from 'path';
+
+export const SITES_DIR = join(__dirname, '..', 'fixtures', 'sites');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml'
+};
+
+export interface FixtureSite {
+  url: string;
+  close(): Promise<void>;
+}
+
+// test/fixtures/sites/<name> を1つのサイトとして配信する。
+// robots.txt・sitemap.xml の有無をサイトごとに変えられるよう、サイトごとに別のポートで起動する
+export async function startFixtureSite(name: string): Promise<FixtureSite> {
+  const root = join(SITES_DIR, name);
+  const server = createServer((req, res) => {
+    const pathname = decodeURIComponent(new URL(req.url || '/', 'http://127.0.0.1').pathname);
+    const file = join(root, normalize(pathname.endsWith('/') ? `${pathname}index.html` : pathname));
+
+    // 画像などフィクスチャにないファイルは 404（本番のサイトでもよくある状態）
+    if (!file.startsWith(root + sep) || !existsSync(file) || !statSync(file).isFile()) {
+      res.writeHead(404, { 'content-type': 'text/plain; charset=utf-8' });
+      res.end('Not Found');
+      return;
+    }
+
+    res.writeHead(200, { 'content-type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+    res.end(readFileSync(file));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
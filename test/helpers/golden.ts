@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+
+export const GOLDEN_DIR = join(__dirname, '..', 'golden');
+
+// UPDATE_GOLDEN=1 npm test で期待値を書き換える（変更内容は git diff で確認してからコミットする）
+export const UPDATE_GOLDEN = Boolean(process.env.UPDATE_GOLDEN);
+
+// name は test/golden からの相対パス（拡張子なし）
+export function assertGolden(name: string, actual: unknown): void {
+  const path = join(GOLDEN_DIR, `${name}.json`);
+  // Date などは JSON に書き出したときの値で比べる
+  const json = JSON.parse(JSON.stringify(actual));
+
+  if (UPDATE_GOLDEN) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `${JSON.stringify(json, null, 2)}\n`, 'utf-8');
+    return;
+  }
+
+  if (!existsSync(path)) {
+    assert.fail(`期待値 ${relative(process.cwd(), path)} がありません。UPDATE_GOLDEN=1 npm test で作成してください`);
+  }
+  assert.deepStrictEqual(json, readGolden(name), `${name} が期待値と異なります`);
+}
+
+export function readGolden<T = any>(name: string): T {
+  return JSON.parse(readFileSync(join(GOLDEN_DIR, `${name}.json`), 'utf-8'));
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HistoryStore } from '../src/history/HistoryStore';
+import { AnalysisResult, CategoryScores } from '../src/types';
+
+function resultFor(url: string, scores: CategoryScores): AnalysisResult {
+  return {
+    url,
+    businessInfo: { url, businessName: 'サンプル商店' },
+    scores,
+    failedAnalyzers: [],
+    issues: [],
+    opportunities: [],
+    estimatedMonthlyLoss: 0,
+    recommendedPlan: 'Standard',
+    priority: 'Medium',
+    screenshots: { desktop: '', mobile: '' },
+    analyzedAt: new Date('2024-04-01T00:00:00Z')
+  };
+}
+
+describe('HistoryStore', () => {
+  const url = 'https://sample.example.jp/';
+
+  test('後から追加したカテゴリのスコアも履歴に残す', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'history-'));
+    try {
+      const filePath = join(dir, 'history.sqlite');
+      const store = await HistoryStore.open(filePath);
+      store.record('run-1', 'hash', [
+        resultFor(url, { total: 60, performance: 70, mobile: 60, seo: 50, conversion: 40, content: 30, accessibility: 80 })
+      ]);
+      store.close();
+
+      const reopened = await HistoryStore.open(filePath);
+      const [entry] = reopened.getHistory(url);
+      reopened.close();
+
+      assert.equal(entry.totalScore, 60);
+      assert.deepEqual(entry.scores, { performance: 70, mobile: 60, seo: 50, conversion: 40, content: 30, accessibility: 80 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
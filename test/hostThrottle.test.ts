@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import dns from 'dns/promises';
+import { HostThrottle, RequestBudgetExceededError } from '../src/runner/HostThrottle';
+
+// 名前解決はネットワークを使わず、ホストごとに決めたアドレスを返す
+const ADDRESSES: Record<string, string> = {
+  'a.example.jp': '192.0.2.1',
+  'b.example.jp': '192.0.2.1',
+  'c.example.jp': '192.0.2.2'
+};
+
+const INTERVAL_MS = 200;
+
+// 各URLの待機が終わった時刻（最初の呼び出しからの経過ミリ秒）
+async function waitAll(throttle: HostThrottle, urls: string[]): Promise<number[]> {
+  const startedAt = Date.now();
+  return Promise.all(urls.map(url => throttle.wait(url).then(() => Date.now() - startedAt)));
+}
+
+describe('HostThrottle', () => {
+  beforeEach(() => {
+    mock.method(dns, 'lookup', async (host: string) => {
+      if (!(host in ADDRESSES)) {
+        throw new Error(`getaddrinfo ENOTFOUND ${host}`);
+      }
+      return { address: ADDRESSES[host], family: 4 };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('同じホストへのアクセスは間隔を空け、別のホストは待たない', async () => {
+    const throttle = new HostThrottle(INTERVAL_MS);
+    const [first, second, third, other] = await waitAll(throttle, [
+      'https://a.example.jp/',
+      'https://a.example.jp/about',
+      'https://www.a.example.jp/contact',
+      'https://c.example.jp/'
+    ]);
+
+    assert.ok(first < INTERVAL_MS / 2, `${first}ms`);
+    assert.ok(second >= INTERVAL_MS - 10, `${second}ms`);
+    assert.ok(third >= INTERVAL_MS * 2 - 10, `${third}ms`);
+    assert.ok(other < INTERVAL_MS / 2, `${other}ms`);
+  });
+
+  test('ipIntervalMs を指定すると、同じIPアドレスの別のホストにも間隔を空ける', async () => {
+    const throttle = new HostThrottle(0, { ipIntervalMs: INTERVAL_MS });
+    const [first, sameAddress, otherAddress] = await waitAll(throttle, [
+      'https://a.example.jp/',
+      'https://b.example.jp/',
+      'https://c.example.jp/'
+    ]);
+
+    assert.ok(first < INTERVAL_MS / 2, `${first}ms`);
+    assert.ok(sameAddress >= INTERVAL_MS - 10, `${sameAddress}ms`);
+    assert.ok(otherAddress < INTERVAL_MS / 2, `${otherAddress}ms`);
+  });
+
+  test('名前解決できないホストはホスト単位の間隔のみ適用する', async () => {
+    const throttle = new HostThrottle(0, { ipIntervalMs: INTERVAL_MS });
+    const elapsed = await waitAll(throttle, ['https://unknown.example.jp/', 'https://unknown.example.jp/about']);
+
+    assert.ok(elapsed.every(ms => ms < INTERVAL_MS / 2), elapsed.join(', '));
+  });
+
+  test('リクエスト数の上限に達すると待機せずに RequestBudgetExceededError を投げる', async () => {
+    const throttle = new HostThrottle(0, { requestBudget: 2 });
+    assert.equal(new HostThrottle(0).remainingBudget, Infinity);
+
+    await throttle.wait('https://a.example.jp/');
+    await throttle.wait('https://c.example.jp/');
+    assert.equal(throttle.remainingBudget, 0);
+
+    await assert.rejects(throttle.wait('https://a.example.jp/about'), (error: unknown) =>
+      error instanceof RequestBudgetExceededError && error.message === '1回の実行で送信できるリクエストの上限（2件）に達しました'
+    );
+  });
+});
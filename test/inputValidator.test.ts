@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import ExcelJS from 'exceljs';
+import iconv from 'iconv-lite';
+import { InputValidator } from '../src/input/InputValidator';
+import { DEFAULT_INPUT_CONFIG } from '../src/config/constants';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'input');
+
+describe('InputValidator.validateFile', () => {
+  const validator = new InputValidator();
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'input-validator-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('CSV: 空欄・不正なURLの行を除き、同じサイトの行は1件にまとめる', async () => {
+    const report = await validator.validateFile(join(FIXTURES_DIR, 'leads.csv'));
+
+    assert.equal(report.format, 'csv');
+    assert.equal(report.encoding, 'utf-8');
+    assert.equal(report.totalRows, 6);
+    assert.deepEqual(report.businesses, [
+      {
+        url: 'https://sakura.example.jp/',
+        businessName: '和食処 さくら',
+        industry: 'restaurant',
+        location: '渋谷区',
+        aliases: ['さくら本店']
+      },
+      {
+        url: 'https://sakura.example.jp/takeout',
+        businessName: 'さくら テイクアウト',
+        industry: 'restaurnt',
+        location: '渋谷区'
+      }
+    ]);
+    assert.deepEqual(report.issues.map(({ line, severity }) => ({ line, severity })), [
+      { line: 3, severity: 'warning' },
+      { line: 4, severity: 'error' },
+      { line: 5, severity: 'warning' },
+      { line: 6, severity: 'warning' },
+      { line: 6, severity: 'warning' },
+      { line: 7, severity: 'error' }
+    ]);
+    assert.deepEqual(report.issues.map(issue => issue.message).filter((_, index) => index !== 4), [
+      'URLが空欄のためスキップします',
+      'URLの形式が不正です: not a url',
+      '2行目と同じサイトのため1件にまとめます: http://www.sakura.example.jp/index.html?utm_source=mail',
+      'ドメイン sakura.example.jp が2行目と重複しています',
+      'URLの形式が不正です: localhost'
+    ]);
+    assert.match(report.issues[4].message, /^不明な業種です: restaurnt（.*） もしかして: restaurant$/);
+  });
+
+  test('CP932 で保存されたCSVも読み込む', async () => {
+    const filePath = join(dir, 'cp932.csv');
+    writeFileSync(filePath, iconv.encode('URL,事業者名\nhttps://sakura.example.jp/,和食処 さくら\n', 'cp932'));
+
+    const report = await validator.validateFile(filePath);
+    assert.equal(report.encoding, 'cp932');
+    assert.deepEqual(report.businesses.map(business => business.businessName), ['和食処 さくら']);
+  });
+
+  test('TSV: 英語の列名を使い、スキームのないURLを補う', async () => {
+    const report = await validator.validateFile(join(FIXTURES_DIR, 'leads.tsv'));
+
+    assert.equal(report.format, 'tsv');
+    assert.deepEqual(report.businesses.map(({ url, businessName, industry }) => ({ url, businessName, industry })), [
+      { url: 'https://hair-mori.example.jp', businessName: 'ヘアサロン森', industry: 'beauty' },
+      { url: 'https://clinic.example.jp/', businessName: '田中クリニック', industry: 'clinic' }
+    ]);
+    assert.deepEqual(report.issues, [{ line: 1, severity: 'warning', message: '地域の列「地域 / location」がありません' }]);
+  });
+
+  test('JSON: 入れ子の列を設定で指定し、要素の番号で問題の位置を示す', async () => {
+    const report = await new InputValidator({
+      ...DEFAULT_INPUT_CONFIG,
+      columns: { url: 'company.website', businessName: 'company.name' }
+    }).validateFile(join(FIXTURES_DIR, 'leads.json'));
+
+    assert.equal(report.format, 'json');
+    assert.equal(report.lineUnit, 'record');
+    assert.deepEqual(report.businesses.map(({ url, businessName }) => ({ url, businessName })), [
+      { url: 'https://sakura.example.jp/', businessName: '和食処 さくら' },
+      { url: 'https://yamada-law.example.jp', businessName: '山田法律事務所' }
+    ]);
+    assert.deepEqual(report.issues, [
+      { line: 0, severity: 'warning', message: '業種の列「業種 / industry」がありません' },
+      { line: 0, severity: 'warning', message: '地域の列「地域 / location」がありません' },
+      { line: 2, severity: 'warning', message: 'URLが空欄のためスキップします' }
+    ]);
+  });
+
+  test('JSON: 事業者の配列が見つからなければ読み込まない', async () => {
+    const filePath = join(dir, 'object.json');
+    writeFileSync(filePath, JSON.stringify({ count: 1, results: [{ URL: 'https://sakura.example.jp/' }] }));
+
+    await assert.rejects(validator.validateFile(filePath), {
+      message: '事業者の配列が見つかりません（配列、または businesses / leads / records / items / data プロパティに配列を指定してください）'
+    });
+  });
+
+  test('JSONL: 空行を飛ばし、行番号で重複を示す', async () => {
+    const report = await validator.validateFile(join(FIXTURES_DIR, 'leads.jsonl'));
+
+    assert.equal(report.format, 'jsonl');
+    assert.equal(report.lineUnit, 'line');
+    assert.deepEqual(report.businesses.map(({ url, aliases }) => ({ url, aliases })), [
+      { url: 'https://sakura.example.jp/', aliases: ['さくら（広告経由）'] },
+      { url: 'https://clinic.example.jp/', aliases: undefined }
+    ]);
+    assert.deepEqual(report.issues, [
+      { line: 3, severity: 'warning', message: '1行目と同じサイトのため1件にまとめます: https://SAKURA.example.jp/?gclid=abc' }
+    ]);
+  });
+
+  test('JSONL: JSONとして読めない行は行番号を示して読み込まない', async () => {
+    const filePath = join(dir, 'broken.jsonl');
+    writeFileSync(filePath, '{"URL": "https://sakura.example.jp/"}\n{"URL": \n');
+
+    await assert.rejects(validator.validateFile(filePath), /^Error: 2行目をJSONとして読み込めません: /);
+  });
+
+  test('XLSX: 指定したシートの表示どおりの文字列を読み、空行を飛ばす', async () => {
+    const filePath = join(dir, 'leads.xlsx');
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('メモ').addRow(['このシートは読み込まない']);
+    const sheet = workbook.addWorksheet('リスト');
+    sheet.addRow(['URL', '事業者名', '業種']);
+    sheet.addRow([{ text: 'https://sakura.example.jp/', hyperlink: 'https://sakura.example.jp/' }, '和食処 さくら', 'restaurant']);
+    sheet.addRow([]);
+    sheet.addRow(['clinic.example.jp', '田中クリニック', 'clinic']);
+    sheet.addRow(['https://sakura.example.jp/', 'さくら本店', 'restaurant']);
+    await workbook.xlsx.writeFile(filePath);
+
+    const report = await new InputValidator({ ...DEFAULT_INPUT_CONFIG, sheet: 'リスト' }).validateFile(filePath);
+
+    assert.equal(report.format, 'xlsx');
+    assert.equal(report.totalRows, 3);
+    assert.deepEqual(report.businesses.map(({ url, businessName, aliases }) => ({ url, businessName, aliases })), [
+      { url: 'https://sakura.example.jp/', businessName: '和食処 さくら', aliases: ['さくら本店'] },
+      { url: 'https://clinic.example.jp', businessName: '田中クリニック', aliases: undefined }
+    ]);
+    assert.deepEqual(report.issues, [
+      { line: 1, severity: 'warning', message: '地域の列「地域 / location」がありません' },
+      { line: 5, severity: 'warning', message: '2行目と同じサイトのため1件にまとめます: https://sakura.example.jp/' }
+    ]);
+    await assert.rejects(
+      new InputValidator({ ...DEFAULT_INPUT_CONFIG, sheet: '一覧' }).validateFile(filePath),
+      { message: 'シート「一覧」が見つかりません（シート: メモ, リスト）' }
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { join } from 'path';
+import { AxiosError } from 'axios';
+import { Browser, chromium } from 'playwright';
+import { PageSnapshot } from '../src/snapshot/PageSnapshot';
+import { SnapshotSet } from '../src/snapshot/SnapshotSet';
+import { BROWSER_MISSING } from './helpers/browser';
+
+// snapshot コマンドで保存した形式（manifest.json + HAR）。closed.example.jp の HAR は保存されていない
+const SNAPSHOT_DIR = join(__dirname, 'fixtures', 'snapshots');
+const SITE_URL = 'https://sakura.example.jp/';
+
+describe('SnapshotSet', () => {
+  test('manifest.json のページを読み込み、ファイルがないページは理由とともに除外する', () => {
+    const snapshots = SnapshotSet.open(SNAPSHOT_DIR);
+
+    assert.deepEqual(snapshots.businesses, [{ url: SITE_URL, businessName: '和食処 さくら', industry: 'restaurant' }]);
+    assert.deepEqual(snapshots.issues, ['pages/closed.har が見つかりません（https://closed.example.jp/）']);
+    assert.throws(() => snapshots.load('https://closed.example.jp/'), {
+      message: 'スナップショットに https://closed.example.jp/ が含まれていません'
+    });
+  });
+
+  test('通信に失敗したリクエストは保存済みのレスポンスに含めない', () => {
+    const snapshot = SnapshotSet.open(SNAPSHOT_DIR).load(SITE_URL);
+
+    assert.equal(snapshot.size, 4);
+    assert.equal(snapshot.get(`${SITE_URL}images/logo.png`), undefined);
+    assert.equal(snapshot.get(`${SITE_URL}css/style.css`)?.body.toString('utf-8'), 'h1 { color: rgb(200, 0, 0); }');
+  });
+});
+
+describe('PageSnapshot.createHttpClient', () => {
+  const snapshot = SnapshotSet.open(SNAPSHOT_DIR).load(SITE_URL);
+  const http = snapshot.createHttpClient();
+
+  test('保存済みのURLには記録した内容で応答する（圧縮・長さのヘッダーは除く）', async () => {
+    const response = await http.get(`${SITE_URL}robots.txt#top`);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.data, 'User-agent: *\nDisallow: /admin/\n');
+
+    const page = await http.get(SITE_URL);
+    assert.deepEqual({ ...page.headers }, { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'max-age=60' });
+  });
+
+  test('保存されていないURLと記録したエラー応答は、ネットワークに出ずにステータスどおり失敗する', async () => {
+    for (const url of [`${SITE_URL}sitemap.xml`, `${SITE_URL}sitemap_index.xml`, 'https://other.example.jp/robots.txt']) {
+      await assert.rejects(http.get(url), (error: unknown) =>
+        error instanceof AxiosError && error.response?.status === 404
+      );
+    }
+
+    const missing = await http.get(`${SITE_URL}sitemap_index.xml`, { validateStatus: () => true });
+    assert.equal(missing.status, 404);
+    assert.equal(missing.statusText, 'Not Found');
+    assert.equal(missing.data, '');
+  });
+});
+
+describe('PageSnapshot.route', { skip: BROWSER_MISSING }, () => {
+  let browser: Browser;
+
+  before(async () => {
+    browser = await chromium.launch();
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  test('ページとアセットに保存済みの内容で応答し、保存されていないURLは 404 にする', async () => {
+    const snapshot: PageSnapshot = SnapshotSet.open(SNAPSHOT_DIR).load(SITE_URL);
+    const context = await browser.newContext();
+    try {
+      await snapshot.route(context);
+      const page = await context.newPage();
+      const statuses = new Map<string, number>();
+      page.on('response', response => statuses.set(response.url(), response.status()));
+
+      const response = await page.goto(SITE_URL, { waitUntil: 'load' });
+
+      assert.equal(response?.status(), 200);
+      assert.equal(await page.title(), '和食処 さくら');
+      assert.equal(await page.$eval('h1', el => getComputedStyle(el).color), 'rgb(200, 0, 0)');
+      assert.equal(statuses.get(`${SITE_URL}css/style.css`), 200);
+      assert.equal(statuses.get(`${SITE_URL}images/logo.png`), 404);
+
+      const other = await page.goto('https://other.example.jp/');
+      assert.equal(other?.status(), 404);
+    } finally {
+      await context.close();
+    }
+  });
+});
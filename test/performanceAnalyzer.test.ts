@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import axios, { AxiosInstance } from 'axios';
+import { Page } from 'playwright';
+import { PerformanceAnalyzer } from '../src/analyzers/PerformanceAnalyzer';
+import { createAnalyzerContext } from './helpers/analyzerContext';
+import { assertGolden } from './helpers/golden';
+
+const PAGESPEED_DIR = join(__dirname, 'fixtures', 'pagespeed');
+
+// PageSpeed Insights API の代わりに、strategy（mobile / desktop）ごとの保存済みレスポンスを返す
+function pageSpeedClient(fixture: string): AxiosInstance {
+  const responses = JSON.parse(readFileSync(join(PAGESPEED_DIR, `${fixture}.json`), 'utf-8'));
+  return axios.create({
+    adapter: async config => ({
+      data: responses[config.params.strategy],
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config,
+      request: {}
+    })
+  });
+}
+
+function failingClient(): AxiosInstance {
+  return axios.create({
+    adapter: async () => {
+      throw new Error('quota exceeded');
+    }
+  });
+}
+
+describe('PerformanceAnalyzer', () => {
+  const analyzer = new PerformanceAnalyzer();
+  const businessInfo = { url: 'https://example.jp/' };
+  // PageSpeed Insights の結果だけで評価するため、ページは開かない
+  const page = { url: () => businessInfo.url } as Pick<Page, 'url'> as Page;
+
+  for (const fixture of ['fast', 'slow']) {
+    test(`PageSpeed Insights の結果から評価する（${fixture}）`, async () => {
+      const context = createAnalyzerContext(businessInfo, {
+        http: pageSpeedClient(fixture),
+        config: { pageSpeedApiKey: 'test-key' }
+      });
+      assertGolden(`performance/${fixture}`, await analyzer.analyze(page, context));
+    });
+  }
+
+  test('APIキーがない場合は簡易測定モードで評価する', async () => {
+    const apiKey = process.env.PAGESPEED_API_KEY;
+    delete process.env.PAGESPEED_API_KEY;
+    try {
+      const context = createAnalyzerContext(businessInfo, { http: failingClient() });
+      assertGolden('performance/fallback', await analyzer.analyze(page, context));
+    } finally {
+      if (apiKey !== undefined) {
+        process.env.PAGESPEED_API_KEY = apiKey;
+      }
+    }
+  });
+
+  test('APIの呼び出しに失敗した場合は簡易測定モードで評価する', async () => {
+    const context = createAnalyzerContext(businessInfo, {
+      http: failingClient(),
+      config: { pageSpeedApiKey: 'test-key' }
+    });
+    assertGolden('performance/fallback', await analyzer.analyze(page, context));
+  });
+
+  test('オフラインでは API を呼ばずに簡易測定モードで評価する', async () => {
+    const context = createAnalyzerContext(businessInfo, {
+      http: failingClient(),
+      config: { pageSpeedApiKey: 'test-key' },
+      offline: true
+    });
+    assertGolden('performance/fallback', await analyzer.analyze(page, context));
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProspectAnalyzer } from '../src/ProspectAnalyzer';
+import { DEFAULT_APP_CONFIG } from '../src/config/constants';
+import { AnalysisResult, BusinessInfo, FailedAnalysis } from '../src/types';
+import { silentLogger } from './helpers/analyzerContext';
+import { BROWSER_MISSING } from './helpers/browser';
+import { FixtureSite, startFixtureSite } from './helpers/fixtureServer';
+
+function resultFor(businessInfo: BusinessInfo): AnalysisResult {
+  return {
+    url: businessInfo.url,
+    businessInfo,
+    scores: { total: 50, performance: 50, mobile: 50, seo: 50, conversion: 50, content: 50 },
+    failedAnalyzers: [],
+    issues: [],
+    opportunities: [],
+    estimatedMonthlyLoss: 0,
+    recommendedPlan: 'Standard',
+    priority: 'Medium',
+    screenshots: { desktop: '', mobile: '' },
+    analyzedAt: new Date()
+  };
+}
+
+// ページを開かずに、入力の後ろの行ほど早く分析が終わるようにする
+class ReversedAnalyzer extends ProspectAnalyzer {
+  constructor(private delays: Map<string, number>, private failing: Set<string> = new Set()) {
+    super(undefined, { logger: silentLogger, concurrency: delays.size });
+  }
+
+  async analyzeUrl(businessInfo: BusinessInfo): Promise<AnalysisResult | FailedAnalysis> {
+    await new Promise(resolve => setTimeout(resolve, this.delays.get(businessInfo.url)));
+    if (this.failing.has(businessInfo.url)) {
+      return { url: businessInfo.url, businessInfo, reason: 'DNS', message: 'not found', attempts: 1, failedAt: new Date() };
+    }
+    return resultFor(businessInfo);
+  }
+}
+
+describe('ProspectAnalyzer.analyzeBusinesses', () => {
+  const businesses: BusinessInfo[] = ['a', 'b', 'c', 'd'].map(name => ({ url: `https://${name}.example.jp/`, businessName: name }));
+  const delays = new Map(businesses.map((business, index) => [business.url, (businesses.length - index) * 20]));
+
+  test('完了順ではなく入力順で結果を返す', async () => {
+    const analyzer = new ReversedAnalyzer(delays, new Set(['https://b.example.jp/']));
+    const finished: string[] = [];
+    analyzer.on('url-finished', event => finished.push(event.url));
+
+    try {
+      const batch = await analyzer.analyzeBusinesses(businesses);
+      assert.deepEqual(finished, ['https://d.example.jp/', 'https://c.example.jp/', 'https://a.example.jp/']);
+      assert.deepEqual(batch.results.map(result => result.url), ['https://a.example.jp/', 'https://c.example.jp/', 'https://d.example.jp/']);
+      assert.deepEqual(batch.failures.map(failure => failure.url), ['https://b.example.jp/']);
+    } finally {
+      await analyzer.close();
+    }
+  });
+});
+
+describe('ProspectAnalyzer の通信記録', { skip: BROWSER_MISSING }, () => {
+  let site: FixtureSite;
+  let dir: string;
+
+  before(async () => {
+    site = await startFixtureSite('restaurant');
+    dir = mkdtempSync(join(tmpdir(), 'recordings-'));
+  });
+
+  after(async () => {
+    await site?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function analyzeWithSnapshot(recordHar: boolean): Promise<AnalysisResult> {
+    const name = recordHar ? 'with-har' : 'without-har';
+    const analyzer = new ProspectAnalyzer({ ...DEFAULT_APP_CONFIG, analysis: { ...DEFAULT_APP_CONFIG.analysis, recordHar } }, {
+      logger: silentLogger,
+      screenshotDir: join(dir, name, 'screenshots'),
+      snapshotDir: join(dir, name, 'snapshots')
+    });
+    try {
+      const outcome = await analyzer.analyzeUrl({ url: site.url, businessName: '和食処 さくら' });
+      assert.ok(!('reason' in outcome), 'reason' in outcome ? outcome.message : '');
+      return outcome;
+    } finally {
+      await analyzer.close();
+    }
+  }
+
+  test('ページを保存しても、recordHar が無効なら HAR を通信記録として結果に載せない', async () => {
+    const result = await analyzeWithSnapshot(false);
+
+    assert.equal(result.recordings, undefined);
+    assert.ok(existsSync(join(dir, 'without-har', 'snapshots', 'manifest.json')));
+  });
+
+  test('recordHar が有効なら、ページの保存で書き出した HAR を通信記録として載せる', async () => {
+    const result = await analyzeWithSnapshot(true);
+
+    assert.equal(result.recordings?.trace, undefined);
+    assert.ok(result.recordings?.har?.startsWith(join(dir, 'with-har', 'snapshots', 'pages')), result.recordings?.har);
+    assert.ok(existsSync(result.recordings!.har!));
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { RobotsTxt } from '../src/runner/RobotsTxt';
+
+const SITE = 'https://example.jp';
+
+describe('RobotsTxt', () => {
+  test('User-Agent 名を含むグループがあればそのグループだけを使う', () => {
+    const text = [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: ProspectBot',
+      'Disallow: /private/',
+      '',
+      'User-agent: OtherBot',
+      'Disallow: /public/'
+    ].join('\n');
+
+    const robots = RobotsTxt.parse(text, 'Mozilla/5.0 (compatible; ProspectBot/1.0)');
+    assert.equal(robots.isAllowed(`${SITE}/public/`), true);
+    assert.equal(robots.isAllowed(`${SITE}/private/page.html`), false);
+
+    const others = RobotsTxt.parse(text, 'Mozilla/5.0 (compatible; UnknownBot/1.0)');
+    assert.equal(others.isAllowed(`${SITE}/public/`), false);
+  });
+
+  test('該当するグループがなければすべて許可する', () => {
+    const robots = RobotsTxt.parse('User-agent: OtherBot\nDisallow: /\n', 'ProspectBot');
+    assert.equal(robots.isAllowed(`${SITE}/`), true);
+    assert.equal(RobotsTxt.allowAll().isAllowed(`${SITE}/private/`), true);
+  });
+
+  test('コメント・空の Disallow・CRLF の改行を扱う', () => {
+    const robots = RobotsTxt.parse('User-agent: * # すべて\r\nDisallow:\r\nDisallow: /tmp/ # 作業用\r\n');
+    assert.equal(robots.isAllowed(`${SITE}/`), true);
+    assert.equal(robots.isAllowed(`${SITE}/tmp/a`), false);
+  });
+
+  const rules = [
+    'User-agent: *',
+    'Disallow: /shop/',
+    'Allow: /shop/items/',
+    'Disallow: /shop/items/draft',
+    'Allow: /page',
+    'Disallow: /page',
+    'Disallow: /*.pdf$',
+    'Disallow: /search?*q=',
+    'Disallow: /*/print$'
+  ].join('\n');
+  const cases: Array<{ path: string; allowed: boolean; reason: string }> = [
+    { path: '/shop/cart', allowed: false, reason: 'Disallow に前方一致する' },
+    { path: '/shop/items/1', allowed: true, reason: 'より長く一致する Allow を優先する' },
+    { path: '/shop/items/draft-1', allowed: false, reason: 'さらに長く一致する Disallow を優先する' },
+    { path: '/page', allowed: true, reason: '同じ長さなら Allow を優先する' },
+    { path: '/files/guide.pdf', allowed: false, reason: '* は任意の文字列に一致する' },
+    { path: '/files/guide.pdf?download=1', allowed: true, reason: '$ はパスの終端にのみ一致する' },
+    { path: '/search?lang=ja&q=cafe', allowed: false, reason: 'クエリ文字列も照合する' },
+    { path: '/search', allowed: true, reason: 'クエリ文字列がなければ一致しない' },
+    { path: '/news/1/print', allowed: false, reason: '* と $ を組み合わせる' },
+    { path: '/news/1/print/page2', allowed: true, reason: '$ の後に続くパスには一致しない' },
+    { path: '/files/guide_pdf', allowed: true, reason: '. は任意の1文字ではなく文字どおりに照合する' }
+  ];
+
+  for (const { path, allowed, reason } of cases) {
+    test(`${path}: ${allowed ? '許可' : '禁止'}（${reason}）`, () => {
+      assert.equal(RobotsTxt.parse(rules).isAllowed(`${SITE}${path}`), allowed);
+    });
+  }
+});
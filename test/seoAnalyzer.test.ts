@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import axios, { AxiosInstance } from 'axios';
+import { Browser, chromium } from 'playwright';
+import { SEOAnalyzer } from '../src/analyzers/SEOAnalyzer';
+import { createAnalyzerContext } from './helpers/analyzerContext';
+import { BROWSER_MISSING } from './helpers/browser';
+
+const SITE_URL = 'https://example.jp/';
+
+// robots.txt とサイトマップの代わりに、パスごとの保存済みレスポンスを返す
+function siteClient(files: Record<string, string>): AxiosInstance {
+  return axios.create({
+    adapter: async config => {
+      const path = new URL(config.url!).pathname;
+      const found = path in files;
+      return {
+        data: found ? files[path] : '',
+        status: found ? 200 : 404,
+        statusText: found ? 'OK' : 'Not Found',
+        headers: {},
+        config,
+        request: {}
+      };
+    }
+  });
+}
+
+describe('SEOAnalyzer', { skip: BROWSER_MISSING }, () => {
+  const analyzer = new SEOAnalyzer();
+  const businessInfo = { url: SITE_URL };
+  let browser: Browser;
+
+  before(async () => {
+    browser = await chromium.launch();
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  async function analyzeWith(files: Record<string, string>) {
+    const page = await browser.newPage();
+    try {
+      await page.route(`${SITE_URL}**`, route => route.fulfill({
+        contentType: 'text/html',
+        body: '<html><head><title>サンプル商店</title></head><body><h1>サンプル商店</h1></body></html>'
+      }));
+      await page.goto(SITE_URL);
+      return await analyzer.analyze(page, createAnalyzerContext(businessInfo, {
+        http: siteClient(files),
+        config: { respectRobotsTxt: true }
+      }));
+    } finally {
+      await page.close();
+    }
+  }
+
+  test('robots.txt でサイトマップの取得が禁止されている場合は未確認として減点しない', async () => {
+    const disallowed = await analyzeWith({ '/robots.txt': 'User-agent: *\nDisallow: /sitemap.xml\n' });
+    const missing = await analyzeWith({ '/robots.txt': 'User-agent: *\nAllow: /\n' });
+
+    assert.equal(disallowed.checkResult.hasSitemap, null);
+    assert.equal(missing.checkResult.hasSitemap, false);
+    assert.equal(disallowed.score - missing.score, 5);
+    assert.ok(!disallowed.issues.some(issue => issue.description.includes('sitemap.xml')));
+    assert.ok(missing.issues.some(issue => issue.description.includes('sitemap.xml')));
+  });
+});
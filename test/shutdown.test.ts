@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { ChildProcess, spawn } from 'child_process';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { constants as osConstants, tmpdir } from 'os';
+import { join } from 'path';
+import { BROWSER_MISSING } from './helpers/browser';
+import { FixtureSite, startFixtureSite } from './helpers/fixtureServer';
+
+const CLI_PATH = join(__dirname, '..', 'src', 'cli.ts');
+const TSCONFIG_PATH = join(__dirname, '..', 'tsconfig.json');
+
+// ページの読み込みが終わらないサイト（停止要求を受けた時点で分析中のまま残る）
+async function startHangingSite(): Promise<{ url: string; requested: Promise<void>; close(): Promise<void> }> {
+  let onRequested: () => void = () => undefined;
+  const requested = new Promise<void>(resolve => {
+    onRequested = resolve;
+  });
+  const server: Server = createServer((req, res) => {
+    if (req.url === '/robots.txt') {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    onRequested();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    requested,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('待機時間を過ぎました');
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+function exitCodeOf(child: ChildProcess): Promise<number | null> {
+  return new Promise(resolve => child.once('exit', code => resolve(code)));
+}
+
+describe('分析中の停止', { skip: BROWSER_MISSING }, () => {
+  let site: FixtureSite;
+
+  before(async () => {
+    site = await startFixtureSite('restaurant');
+  });
+
+  after(async () => {
+    await site?.close();
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    test(`${signal} を受けると途中結果のレポートを出力し、分析中だったURLは未分析のまま残す`, async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'shutdown-'));
+      const hanging = await startHangingSite();
+      let child: ChildProcess | undefined;
+
+      try {
+        writeFileSync(join(dir, 'urls.csv'), `URL,事業者名\n${site.url},和食処 さくら\n${hanging.url},読み込み中商店\n`);
+        // 分析中のURLを待つ時間は短くし、停止のためにブラウザを閉じた後の失敗が記録されないことを確かめる
+        writeFileSync(join(dir, 'config.json'), JSON.stringify({ analysis: { shutdownGracePeriodMs: 500 } }));
+
+        // 出力先（output/）はテスト用のフォルダに作る
+        child = spawn(process.execPath, [
+          '--require', require.resolve('ts-node/register/transpile-only'),
+          CLI_PATH, 'urls.csv', '--config', 'config.json'
+        ], {
+          cwd: dir,
+          env: { ...process.env, TS_NODE_PROJECT: TSCONFIG_PATH, MAX_CONCURRENT_ANALYSES: '2' },
+          stdio: 'ignore'
+        });
+        const exited = exitCodeOf(child);
+
+        const runsDir = join(dir, 'output', 'runs');
+        const journalLines = () => {
+          const [runId] = existsSync(runsDir) ? readdirSync(runsDir) : [];
+          const journalPath = runId ? join(runsDir, runId, 'results.jsonl') : '';
+          return journalPath && existsSync(journalPath) ?
+            readFileSync(journalPath, 'utf-8').split('\n').filter(Boolean).map(line => JSON.parse(line)) :
+            [];
+        };
+
+        // 1件目の分析が完了し、2件目のページを読み込み中のときに停止する
+        await Promise.race([hanging.requested, exited.then(code => assert.fail(`分析中に終了しました（終了コード ${code}）`))]);
+        await waitFor(() => journalLines().length > 0, 120000);
+        child.kill(signal);
+
+        assert.equal(await exited, 128 + osConstants.signals[signal]);
+        assert.deepEqual(journalLines().map(entry => entry.type === 'result' ? entry.result.url : entry.failure.url), [site.url]);
+
+        const report = readFileSync(join(dir, 'output', 'reports', 'analysis_report_partial.csv'), 'utf-8');
+        assert.match(report, /和食処 さくら/);
+        assert.doesNotMatch(report, /読み込み中商店/);
+      } finally {
+        if (child && child.exitCode === null && child.signalCode === null) {
+          child.kill('SIGKILL');
+        }
+        await hanging.close();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  }
+});
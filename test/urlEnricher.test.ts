@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { Browser, chromium } from 'playwright';
+import { URLEnricher } from '../src/collectors/URLEnricher';
+import { silentLogger } from './helpers/analyzerContext';
+import { BROWSER_MISSING } from './helpers/browser';
+
+describe('URLEnricher.enrichPage', { skip: BROWSER_MISSING }, () => {
+  const enricher = new URLEnricher(undefined, silentLogger);
+  let browser: Browser;
+
+  before(async () => {
+    browser = await chromium.launch();
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  test('footer 要素やクリックできるリンクがないページでも要素の出現を待たずに収集する', async () => {
+    const page = await browser.newPage();
+    try {
+      // 本番ではページの既定の待ち時間が長く、待つと1件ごとに数十秒止まる
+      page.setDefaultTimeout(10000);
+      await page.setContent(`
+        <div class="news">2024年3月1日 営業時間変更のお知らせ</div>
+        <a href="/about" style="display: none">会社概要</a>
+        <p>設立 1998年 従業員 12名</p>
+      `);
+
+      const startedAt = Date.now();
+      const enrichment = await enricher.enrichPage(page);
+
+      assert.ok(Date.now() - startedAt < 5000, `${Date.now() - startedAt}ms かかりました`);
+      assert.deepEqual(enrichment.lastUpdated, new Date('2024-3-1'));
+      assert.equal(enrichment.employeeCount, '12名');
+      assert.equal(enrichment.establishedYear, '1998年');
+    } finally {
+      await page.close();
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { WorkerPool } from '../src/runner/WorkerPool';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('WorkerPool', () => {
+  test('同時に呼ばれた run() の項目を交互に処理し、同時実行数を共有する', async () => {
+    const pool = new WorkerPool<string>(2);
+    const order: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const worker = async (item: string) => {
+      order.push(item);
+      maxRunning = Math.max(maxRunning, ++running);
+      await tick();
+      running--;
+    };
+
+    await Promise.all([
+      pool.run(['a1', 'a2', 'a3', 'a4'], worker),
+      pool.run(['b1', 'b2'], worker)
+    ]);
+
+    assert.equal(maxRunning, 2);
+    assert.deepEqual(order, ['a1', 'a2', 'b1', 'a3', 'b2', 'a4']);
+  });
+
+  test('中断された run() だけが新しい項目の開始を止める', async () => {
+    const pool = new WorkerPool<string>(1);
+    const controller = new AbortController();
+    const order: string[] = [];
+
+    await Promise.all([
+      pool.run(['a1', 'a2', 'a3'], async item => {
+        order.push(item);
+        controller.abort();
+        await tick();
+      }, controller.signal),
+      pool.run(['b1', 'b2'], async item => {
+        order.push(item);
+        await tick();
+      })
+    ]);
+
+    assert.deepEqual(order, ['a1', 'b1', 'b2']);
+  });
+
+  test('項目の処理に失敗した run() は失敗として戻る', async () => {
+    const pool = new WorkerPool<number>(2);
+    await assert.rejects(pool.run([1, 2, 3], async item => {
+      if (item === 2) throw new Error('failed');
+    }), /failed/);
+    // 失敗した後も他の run() は処理できる
+    const done: number[] = [];
+    await pool.run([4], async item => {
+      done.push(item);
+    });
+    assert.deepEqual(done, [4]);
+  });
+});